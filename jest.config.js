@@ -5,9 +5,11 @@ module.exports = {
   testMatch: ['**/__tests__/**/*.ts', '**/?(*.)+(spec|test).ts'],
   transform: {
     '^.+\\.ts$': 'ts-jest',
+    // uuid only ships ES modules
+    '^.+\\.js$': ['ts-jest', { tsconfig: { allowJs: true } }],
   },
   transformIgnorePatterns: [
-    'node_modules/(?!(uuid)/)',
+    'node_modules/(?!(\\.pnpm|uuid)[/@])',
   ],
   collectCoverageFrom: [
     'src/**/*.ts',
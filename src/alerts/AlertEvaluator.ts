@@ -0,0 +1,219 @@
+import { AlertEvent, AlertOperator, AlertRule } from './types';
+import { DynamicSystemStatus } from '../collector';
+import { AlertRuleConfig } from '../config';
+import { parseDuration } from '../utils/duration';
+import { Logger } from '../utils/logger';
+
+const EXPR_PATTERN = /^\s*(.+?)\s*(>=|<=|==|!=|>|<)\s*(-?\d+(?:\.\d+)?)\s*(?:for\s+(\S+))?\s*$/;
+
+/**
+ * Runtime state of a single rule
+ */
+interface RuleState {
+  pendingSince: number | null; // When the condition started holding
+  firingSince: number | null; // When the alert started firing
+  lastFiredAt: number | null; // When the last firing event was emitted
+}
+
+/**
+ * Parse an alert rule configuration entry
+ * @param config Rule configuration
+ * @returns Parsed rule
+ * @throws Error if the expression or a duration is invalid
+ */
+export function parseAlertRule(config: AlertRuleConfig): AlertRule {
+  const match = EXPR_PATTERN.exec(config.expr || '');
+  if (!match) {
+    throw new Error(`Invalid alert expression: "${config.expr}"`);
+  }
+
+  const [, path, operator, threshold, forExpr] = match;
+  const forValue = config.for ?? forExpr;
+
+  return {
+    name: config.name,
+    expr: config.expr,
+    path,
+    operator: operator as AlertOperator,
+    threshold: Number(threshold),
+    forMs: forValue !== undefined ? parseDuration(forValue) : 0,
+    cooldownMs: config.cooldown !== undefined ? parseDuration(config.cooldown) : 0,
+    hysteresis: Math.abs(config.hysteresis || 0),
+    severity: config.severity || 'warning',
+  };
+}
+
+/**
+ * Resolve a metric path against a status object
+ * Supports dotted properties, numeric indexes and key=value selectors on arrays,
+ * e.g. 'diskUsages[mountpoint=/].usagePercent' or 'cpuCores[0].usage'
+ * @returns The numeric value, or undefined if the path does not resolve to a number
+ */
+export function resolveMetricPath(source: unknown, path: string): number | undefined {
+  const tokens = path.match(/[^.[\]]+|\[[^\]]*\]/g) || [];
+  let current: unknown = source;
+
+  for (const token of tokens) {
+    if (current === null || current === undefined) {
+      return undefined;
+    }
+
+    if (token.startsWith('[')) {
+      if (!Array.isArray(current)) {
+        return undefined;
+      }
+      const selector = token.slice(1, -1);
+      const separator = selector.indexOf('=');
+      if (separator < 0) {
+        current = current[Number(selector)];
+      } else {
+        const key = selector.slice(0, separator).trim();
+        const value = selector.slice(separator + 1).trim();
+        current = current.find(
+          (item) => item !== null && typeof item === 'object' && String(item[key]) === value
+        );
+      }
+    } else {
+      current = (current as Record<string, unknown>)[token];
+    }
+  }
+
+  return typeof current === 'number' && Number.isFinite(current) ? current : undefined;
+}
+
+/**
+ * Compare a value against a threshold
+ */
+function compare(value: number, operator: AlertOperator, threshold: number): boolean {
+  switch (operator) {
+    case '>':
+      return value > threshold;
+    case '>=':
+      return value >= threshold;
+    case '<':
+      return value < threshold;
+    case '<=':
+      return value <= threshold;
+    case '==':
+      return value === threshold;
+    case '!=':
+      return value !== threshold;
+  }
+}
+
+/**
+ * Check whether a firing alert has cleared, taking hysteresis into account
+ * For '>' and '>=' the condition must stop holding at threshold - hysteresis,
+ * for '<' and '<=' at threshold + hysteresis
+ */
+function hasCleared(rule: AlertRule, value: number): boolean {
+  switch (rule.operator) {
+    case '>':
+    case '>=':
+      return !compare(value, rule.operator, rule.threshold - rule.hysteresis);
+    case '<':
+    case '<=':
+      return !compare(value, rule.operator, rule.threshold + rule.hysteresis);
+    default:
+      return !compare(value, rule.operator, rule.threshold);
+  }
+}
+
+/**
+ * AlertEvaluator class
+ * Evaluates configured alert rules against each dynamic status sample
+ * and emits firing and resolved events
+ */
+export class AlertEvaluator {
+  private rules: AlertRule[] = [];
+  private states = new Map<string, RuleState>();
+  private logger: Logger;
+
+  constructor(configs: AlertRuleConfig[]) {
+    this.logger = new Logger('AlertEvaluator');
+
+    for (const config of configs) {
+      try {
+        const rule = parseAlertRule(config);
+        if (!rule.name || this.states.has(rule.name)) {
+          throw new Error(`Alert rule name must be unique and non-empty: "${rule.name}"`);
+        }
+        this.rules.push(rule);
+        this.states.set(rule.name, { pendingSince: null, firingSince: null, lastFiredAt: null });
+      } catch (error) {
+        this.logger.error(`Skipping invalid alert rule "${config.name}"`, error);
+      }
+    }
+  }
+
+  /**
+   * Get the number of active rules
+   */
+  getRuleCount(): number {
+    return this.rules.length;
+  }
+
+  /**
+   * Evaluate all rules against a status sample
+   * Rules whose metric path does not resolve keep their current state
+   * @param status Dynamic system status
+   * @returns Events emitted by this evaluation
+   */
+  evaluate(status: DynamicSystemStatus): AlertEvent[] {
+    const events: AlertEvent[] = [];
+    const now = status.timestamp;
+
+    for (const rule of this.rules) {
+      const state = this.states.get(rule.name)!;
+      const value = resolveMetricPath(status, rule.path);
+      if (value === undefined) {
+        continue;
+      }
+
+      if (state.firingSince !== null) {
+        if (hasCleared(rule, value)) {
+          events.push(this.createEvent(rule, 'resolved', value, state.firingSince, now));
+          state.firingSince = null;
+          state.pendingSince = null;
+        }
+        continue;
+      }
+
+      if (!compare(value, rule.operator, rule.threshold)) {
+        state.pendingSince = null;
+        continue;
+      }
+
+      state.pendingSince ??= now;
+      const heldLongEnough = now - state.pendingSince >= rule.forMs;
+      const cooledDown = state.lastFiredAt === null || now - state.lastFiredAt >= rule.cooldownMs;
+
+      if (heldLongEnough && cooledDown) {
+        state.firingSince = now;
+        state.lastFiredAt = now;
+        events.push(this.createEvent(rule, 'firing', value, now, now));
+      }
+    }
+
+    return events;
+  }
+
+  private createEvent(
+    rule: AlertRule,
+    state: AlertEvent['state'],
+    value: number,
+    startsAt: number,
+    timestamp: number
+  ): AlertEvent {
+    return {
+      rule: rule.name,
+      expr: rule.expr,
+      severity: rule.severity,
+      state,
+      value,
+      threshold: rule.threshold,
+      startsAt,
+      timestamp,
+    };
+  }
+}
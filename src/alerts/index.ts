@@ -0,0 +1,2 @@
+export { AlertEvaluator, parseAlertRule, resolveMetricPath } from './AlertEvaluator';
+export { AlertRule, AlertOperator, AlertEvent, AlertPayload } from './types';
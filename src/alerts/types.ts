@@ -0,0 +1,49 @@
+import { AlertSeverity } from '../config';
+
+/**
+ * Comparison operator used in alert rule expressions
+ */
+export type AlertOperator = '>' | '>=' | '<' | '<=' | '==' | '!=';
+
+/**
+ * Parsed alert rule
+ * Built from an AlertRuleConfig entry
+ */
+export interface AlertRule {
+  name: string; // Unique rule name
+  expr: string; // Original expression
+  path: string; // Metric path into DynamicSystemStatus
+  operator: AlertOperator; // Comparison operator
+  threshold: number; // Value compared against
+  forMs: number; // How long the condition must hold before firing
+  cooldownMs: number; // Minimum time between two firing events
+  hysteresis: number; // Margin past the threshold required to resolve
+  severity: AlertSeverity; // Alert severity
+}
+
+/**
+ * Alert event
+ * Emitted when a rule starts firing or resolves
+ */
+export interface AlertEvent {
+  rule: string; // Rule name
+  expr: string; // Rule expression
+  severity: AlertSeverity; // Alert severity
+  state: 'firing' | 'resolved'; // New alert state
+  value: number; // Metric value at the time of the event
+  threshold: number; // Rule threshold
+  startsAt: number; // When the alert started firing (Unix milliseconds)
+  timestamp: number; // When the event was emitted (Unix milliseconds)
+}
+
+/**
+ * Alert payload interface
+ * Sent to the server for each alert event
+ */
+export interface AlertPayload {
+  clientId: string; // Client unique identifier (UUID)
+  clientName: string; // Client custom name
+  clientTags: string[]; // Client tags list
+  hostname: string; // System hostname
+  alert: AlertEvent; // The alert event
+}
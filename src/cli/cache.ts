@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CacheEntry, Reporter, readQueueFile } from '../reporter';
+import { withClientLock } from './lock';
+import { CommandContext, ExitCode } from './types';
+
+/**
+ * Queue files: 'report-queue.log' for the failover destinations and
+ * 'report-queue-<name>.log' for each fan-out destination
+ */
+const QUEUE_FILE = /^report-queue(-.+)?\.log$/;
+
+/**
+ * Contents of one queue file
+ */
+export interface QueueFileInfo {
+  file: string; // Path of the queue file
+  entries: CacheEntry[]; // Cached entries, oldest first
+  quarantined: number; // Corrupt records moved to '<file>.quarantine'
+}
+
+/**
+ * Read all queue files in the cache directory without changing them
+ */
+export function readQueueFiles(cacheDir: string): QueueFileInfo[] {
+  if (!fs.existsSync(cacheDir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(cacheDir)
+    .filter((name) => QUEUE_FILE.test(name))
+    .sort()
+    .map((name) => {
+      const file = path.join(cacheDir, name);
+      return {
+        file,
+        entries: readQueueFile<CacheEntry>(file),
+        quarantined: countLines(`${file}.quarantine`),
+      };
+    });
+}
+
+function countLines(filePath: string): number {
+  if (!fs.existsSync(filePath)) {
+    return 0;
+  }
+  return fs
+    .readFileSync(filePath, 'utf-8')
+    .split('\n')
+    .filter((line) => line !== '').length;
+}
+
+/**
+ * cache list|flush|purge
+ */
+export async function cacheCommand(
+  context: CommandContext,
+  action: string | undefined
+): Promise<ExitCode> {
+  switch (action) {
+    case 'list':
+      return listCache(context);
+    case 'flush':
+      return withClientLock(context, () => flushCache(context));
+    case 'purge':
+      return withClientLock(context, () => purgeCache(context));
+    default:
+      console.error('Usage: cache list|flush|purge');
+      return ExitCode.USAGE;
+  }
+}
+
+/**
+ * Print the cached entries of every queue file
+ */
+function listCache(context: CommandContext): ExitCode {
+  const files = readQueueFiles(context.cacheDir);
+
+  if (context.options.json) {
+    const summary = files.map(({ file, entries, quarantined }) => ({
+      file,
+      entries: entries.map(({ id, kind, timestamp, retryCount }) => ({
+        id,
+        kind: kind ?? 'report',
+        timestamp,
+        retryCount,
+      })),
+      quarantined,
+    }));
+    console.log(JSON.stringify(summary, null, 2));
+    return ExitCode.OK;
+  }
+
+  if (files.length === 0) {
+    console.log(`No queue files in ${context.cacheDir}`);
+    return ExitCode.OK;
+  }
+  for (const { file, entries, quarantined } of files) {
+    console.log(
+      `${file}: ${entries.length} entries` +
+        (quarantined > 0 ? `, ${quarantined} corrupt records quarantined` : '')
+    );
+    for (const entry of entries) {
+      console.log(
+        `  ${new Date(entry.timestamp).toISOString()}  ${(entry.kind ?? 'report').padEnd(6)}  ` +
+          `${entry.id}  (${entry.retryCount} retries)`
+      );
+    }
+  }
+  return ExitCode.OK;
+}
+
+/**
+ * Send the cached entries now; runs with the client lock held
+ * Exits with UNAVAILABLE when entries are left because a server did not accept them
+ */
+async function flushCache(context: CommandContext): Promise<ExitCode> {
+  const config = context.configManager.loadConfig();
+  if (!config.pushEnabled) {
+    console.error('Push reporting is disabled (pushEnabled is false)');
+    return ExitCode.FAILURE;
+  }
+
+  const reporter = new Reporter(config, context.cacheDir);
+  const before = reporter.getCacheSize();
+  try {
+    await reporter.retryCachedReports();
+  } finally {
+    await reporter.close();
+  }
+
+  const left = reporter.getCacheSize();
+  console.log(`Sent ${before - left} cached entries, ${left} left`);
+  return left > 0 ? ExitCode.UNAVAILABLE : ExitCode.OK;
+}
+
+/**
+ * Delete all queue files and their quarantine files; runs with the client lock held
+ */
+function purgeCache(context: CommandContext): ExitCode {
+  let entries = 0;
+  for (const { file, entries: queued } of readQueueFiles(context.cacheDir)) {
+    entries += queued.length;
+    fs.rmSync(file, { force: true });
+    fs.rmSync(`${file}.quarantine`, { force: true });
+  }
+  console.log(`Deleted ${entries} cached entries`);
+  return ExitCode.OK;
+}
@@ -0,0 +1,46 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { CommandContext, ExitCode } from './types';
+
+/**
+ * Read the persisted client ID
+ * @returns The ID, or undefined if none was generated yet
+ */
+export function readClientId(cacheDir: string): string | undefined {
+  try {
+    return fs.readFileSync(path.join(cacheDir, 'client-id.txt'), 'utf-8').trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * id show|reset
+ * Reset generates a new ID; the server then sees this machine as a new client
+ */
+export function idCommand(context: CommandContext, action: string | undefined): ExitCode {
+  const idFilePath = path.join(context.cacheDir, 'client-id.txt');
+
+  switch (action) {
+    case 'show': {
+      const id = readClientId(context.cacheDir);
+      if (!id) {
+        console.error(`No client ID yet (${idFilePath} does not exist)`);
+        return ExitCode.FAILURE;
+      }
+      console.log(context.options.json ? JSON.stringify({ clientId: id }) : id);
+      return ExitCode.OK;
+    }
+    case 'reset': {
+      const id = uuidv4();
+      fs.mkdirSync(context.cacheDir, { recursive: true });
+      fs.writeFileSync(idFilePath, id, 'utf-8');
+      console.log(context.options.json ? JSON.stringify({ clientId: id }) : id);
+      return ExitCode.OK;
+    }
+    default:
+      console.error('Usage: id show|reset');
+      return ExitCode.USAGE;
+  }
+}
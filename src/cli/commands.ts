@@ -0,0 +1,164 @@
+import { ConfigValidationError } from '../config';
+import { CircuitOpenError } from '../reporter';
+import { TransportError } from '../reporter/transports';
+import { cacheCommand } from './cache';
+import { idCommand } from './clientId';
+import { doctorCommand } from './doctor';
+import { withClientLock } from './lock';
+import { Command, CommandContext, CommandName, ExitCode } from './types';
+
+/**
+ * Subcommands each command accepts
+ */
+const ACTIONS: Record<CommandName, string[]> = {
+  run: [],
+  collect: [],
+  send: [],
+  doctor: [],
+  cache: ['list', 'flush', 'purge'],
+  id: ['show', 'reset'],
+  config: ['print'],
+  help: [],
+};
+
+export const USAGE = `Usage: status-client [command] [flags]
+
+Commands:
+  run                      Collect and report until stopped (default)
+  collect [--once]         Print the report payload instead of sending it
+  send --once              Collect and send one report, then exit
+  doctor                   Check configuration, cache directory, collectors and servers
+  cache list|flush|purge   Show, send now or delete the cached reports
+  id show|reset            Print or regenerate the client ID
+  config print             Print the effective configuration, secrets masked
+  help                     Print this help
+
+Flags:
+  --config <path>          Config file (default: config.json)
+  --strict                 Fail on any configuration problem
+  --once                   Run collect or send once and exit
+  --json                   Print machine-readable output
+  --<field> <value>        Override a configuration field, e.g. --server-url <url>
+
+Exit codes: 0 success, 1 failure, 2 usage error, 3 invalid configuration,
+4 not accepted by a server (the data was cached)`;
+
+/**
+ * Parse the command from the positional arguments; no command means 'run'
+ * @returns The command, or the reason it is invalid
+ */
+export function parseCommand(positionals: string[]): { command?: Command; problem?: string } {
+  const [name = 'run', action, ...extra] = positionals;
+  if (!Object.prototype.hasOwnProperty.call(ACTIONS, name)) {
+    return { problem: `Unknown command '${name}'` };
+  }
+
+  const actions = ACTIONS[name as CommandName];
+  if (actions.length > 0 && (action === undefined || !actions.includes(action))) {
+    return { problem: `Usage: ${name} ${actions.join('|')}` };
+  }
+  const unexpected = actions.length > 0 ? extra : [action, ...extra];
+  if (unexpected[0] !== undefined) {
+    return { problem: `Unexpected argument '${unexpected[0]}'` };
+  }
+  return { command: { name: name as CommandName, action } };
+}
+
+/**
+ * Run a one-shot command
+ * Output goes to stdout, log messages and errors to stderr
+ * @returns The process exit code
+ */
+export async function runCommand(command: Command, context: CommandContext): Promise<ExitCode> {
+  try {
+    switch (command.name) {
+      case 'collect':
+        return await collectCommand(context);
+      case 'send':
+        return await sendCommand(context);
+      case 'doctor':
+        return await doctorCommand(context);
+      case 'cache':
+        return await cacheCommand(context, command.action);
+      case 'id':
+        return idCommand(context, command.action);
+      case 'config':
+        return configCommand(context);
+      default:
+        console.log(USAGE);
+        return ExitCode.OK;
+    }
+  } catch (error) {
+    if (error instanceof ConfigValidationError) {
+      console.error(error.message);
+      return ExitCode.CONFIG;
+    }
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    return ExitCode.FAILURE;
+  }
+}
+
+/**
+ * collect: print the payload the next report would send, once or every reportInterval
+ * With --json each payload is one line. The offline queues are only read, so this is
+ * safe while the client runs
+ */
+async function collectCommand(context: CommandContext): Promise<ExitCode> {
+  const client = context.createClient(true);
+  const print = async () => {
+    const payload = await client.collectOnce();
+    console.log(context.options.json ? JSON.stringify(payload) : JSON.stringify(payload, null, 2));
+  };
+
+  await print();
+  if (context.options.once) {
+    return ExitCode.OK;
+  }
+
+  // Runs until interrupted
+  return new Promise<ExitCode>(() => {
+    setInterval(() => {
+      print().catch((error) => {
+        console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      });
+    }, client.getConfig().reportInterval);
+  });
+}
+
+/**
+ * send --once: collect and send one report
+ * Exits with UNAVAILABLE when a server was unavailable or rejected it; the report stays cached
+ * Refuses while the client runs, as both would write the offline queues
+ */
+function sendCommand(context: CommandContext): Promise<ExitCode> {
+  return withClientLock(context, () => sendLocked(context));
+}
+
+async function sendLocked(context: CommandContext): Promise<ExitCode> {
+  const client = context.createClient(false);
+  if (!client.getConfig().pushEnabled) {
+    console.error('Push reporting is disabled (pushEnabled is false)');
+    return ExitCode.FAILURE;
+  }
+
+  try {
+    await client.sendOnce();
+  } catch (error) {
+    if (error instanceof TransportError || error instanceof CircuitOpenError) {
+      console.error(`Report cached, not sent: ${error.message}`);
+      return ExitCode.UNAVAILABLE;
+    }
+    throw error;
+  }
+  console.log('Report sent');
+  return ExitCode.OK;
+}
+
+/**
+ * config print: print the effective configuration with secrets masked
+ */
+function configCommand(context: CommandContext): ExitCode {
+  const { configManager } = context;
+  console.log(JSON.stringify(configManager.maskSecrets(configManager.loadConfig()), null, 2));
+  return ExitCode.OK;
+}
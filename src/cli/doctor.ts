@@ -0,0 +1,265 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ClientConfig,
+  ConfigManager,
+  ConfigValidationError,
+  CustomCollectorConfig,
+  resolveDestinations,
+} from '../config';
+import { SystemCollector, DynamicSystemStatus } from '../collector';
+import { ProbeRunner } from '../probes';
+import { Destination } from '../reporter';
+import { TransportError } from '../reporter/transports';
+import { readQueueFiles } from './cache';
+import { readClientId } from './clientId';
+import { CommandContext, DoctorCheck, ExitCode } from './types';
+
+/**
+ * doctor: check the configuration, the cache directory, the collectors and every
+ * destination, and print the results
+ * Exits with FAILURE if any check failed; warnings do not change the exit code
+ */
+export async function doctorCommand(context: CommandContext): Promise<ExitCode> {
+  const checks = await runDoctor(context);
+  const ok = checks.every((check) => check.status !== 'fail');
+
+  if (context.options.json) {
+    console.log(JSON.stringify({ ok, checks }, null, 2));
+  } else {
+    const labels = { ok: '[ OK ]', warn: '[WARN]', fail: '[FAIL]' };
+    for (const check of checks) {
+      console.log(`${labels[check.status]} ${check.name}: ${check.message}`);
+    }
+  }
+  return ok ? ExitCode.OK : ExitCode.FAILURE;
+}
+
+/**
+ * Run all checks
+ * Later checks use the configuration even if it has problems, as the client would
+ */
+export async function runDoctor(context: CommandContext): Promise<DoctorCheck[]> {
+  const checks: DoctorCheck[] = [checkConfig(context)];
+  const config = context.configManager.loadConfig();
+
+  checks.push(checkCacheDir(context.cacheDir));
+  checks.push(...(await checkCollectors(config)));
+  checks.push(...(await checkDestinations(config, context.cacheDir)));
+  return checks;
+}
+
+/**
+ * Load the configuration in strict mode, so every problem is reported
+ */
+function checkConfig(context: CommandContext): DoctorCheck {
+  const name = 'Configuration';
+  const configPath = context.configManager.getConfigPath();
+  try {
+    new ConfigManager(configPath, {
+      cliOverrides: context.options.overrides,
+      strict: true,
+      quiet: true,
+    }).loadConfig();
+  } catch (error) {
+    const message =
+      error instanceof ConfigValidationError ? error.problems.join('; ') : errorMessage(error);
+    return { name, status: 'fail', message };
+  }
+
+  if (!fs.existsSync(configPath)) {
+    return { name, status: 'warn', message: `${configPath} not found, using defaults` };
+  }
+  return { name, status: 'ok', message: `${configPath} is valid` };
+}
+
+/**
+ * Check that the client ID and the offline queues can be written
+ */
+function checkCacheDir(cacheDir: string): DoctorCheck {
+  const name = 'Cache directory';
+  try {
+    fs.mkdirSync(cacheDir, { recursive: true });
+    const probe = path.join(cacheDir, `.doctor-${process.pid}`);
+    fs.writeFileSync(probe, '');
+    fs.unlinkSync(probe);
+  } catch (error) {
+    return { name, status: 'fail', message: `${cacheDir} is not writable: ${errorMessage(error)}` };
+  }
+
+  const files = readQueueFiles(cacheDir);
+  const cached = files.reduce((total, file) => total + file.entries.length, 0);
+  const quarantined = files.reduce((total, file) => total + file.quarantined, 0);
+  const message = `${path.resolve(cacheDir)} is writable, ${cached} cached entries`;
+  if (quarantined > 0) {
+    return {
+      name,
+      status: 'warn',
+      message: `${message}, ${quarantined} corrupt records quarantined`,
+    };
+  }
+  return { name, status: 'ok', message };
+}
+
+/**
+ * Collect static info, dynamic status and probe results once
+ * Log offsets are not saved, and custom metric commands are only looked up, not run
+ */
+async function checkCollectors(config: ClientConfig): Promise<DoctorCheck[]> {
+  const collector = new SystemCollector(
+    { ...config, customCollectors: [] },
+    { persistLogOffsets: false }
+  );
+  const checks: DoctorCheck[] = [];
+
+  checks.push(
+    await timed('Static info', async () => {
+      await collector.collectStaticInfo();
+    })
+  );
+
+  let status: DynamicSystemStatus | undefined;
+  checks.push(
+    await timed('Dynamic status', async () => {
+      status = await collector.collectDynamicStatus();
+    })
+  );
+  if (status) {
+    checks.push(...checkOptionalCollectors(config, status));
+  }
+  checks.push(...config.customCollectors.map(checkCustomCollector));
+
+  const probes = await new ProbeRunner(config.probes).run();
+  for (const probe of probes) {
+    checks.push({
+      name: `Probe ${probe.name}`,
+      status: probe.status === 'up' ? 'ok' : 'warn',
+      message: probe.status === 'up' ? `up (${probe.latencyMs}ms)` : `down: ${probe.lastError}`,
+    });
+  }
+  return checks;
+}
+
+/**
+ * Warn about enabled collectors that produced nothing
+ */
+function checkOptionalCollectors(config: ClientConfig, status: DynamicSystemStatus): DoctorCheck[] {
+  const checks: DoctorCheck[] = [];
+  const optional: [string, boolean, unknown][] = [
+    ['Process monitoring', config.processMonitoring.enabled, status.topProcesses],
+    ['Container monitoring', config.containerMonitoring.enabled, status.containers],
+    ['systemd monitoring', config.systemdMonitoring.enabled, status.systemdUnits],
+  ];
+  for (const [name, enabled, collected] of optional) {
+    if (enabled) {
+      checks.push(
+        collected
+          ? { name, status: 'ok', message: 'available' }
+          : { name, status: 'warn', message: 'enabled, but not available on this system' }
+      );
+    }
+  }
+  return checks;
+}
+
+/**
+ * Check that the program a custom metric command starts exists, without running it
+ */
+function checkCustomCollector(collector: CustomCollectorConfig): DoctorCheck {
+  const name = `Custom metric ${collector.name}`;
+  const program = collector.command.trim().split(/\s+/)[0];
+  if (!program) {
+    return { name, status: 'warn', message: 'no command' };
+  }
+  if (findExecutable(program)) {
+    return { name, status: 'ok', message: `${program} found (not run)` };
+  }
+  return { name, status: 'warn', message: `${program} not found or not executable` };
+}
+
+/**
+ * Resolve a program like the shell does: paths as given, bare names through PATH
+ */
+function findExecutable(program: string): string | undefined {
+  const candidates = program.includes(path.sep)
+    ? [program]
+    : (process.env.PATH ?? '')
+        .split(path.delimiter)
+        .filter((dir) => dir !== '')
+        .map((dir) => path.join(dir, program));
+  return candidates.find((candidate) => {
+    try {
+      fs.accessSync(candidate, fs.constants.X_OK);
+      return fs.statSync(candidate).isFile();
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Poll every destination for control messages, which checks that the server is
+ * reachable and accepts the client's credentials without sending any data
+ */
+async function checkDestinations(config: ClientConfig, cacheDir: string): Promise<DoctorCheck[]> {
+  if (!config.pushEnabled) {
+    return [{ name: 'Destinations', status: 'warn', message: 'push reporting is disabled' }];
+  }
+
+  const clientId = readClientId(cacheDir) ?? '';
+  return Promise.all(
+    resolveDestinations(config).map(async (resolved): Promise<DoctorCheck> => {
+      const destination = new Destination(resolved, clientId, config);
+      const name = destination.describe();
+      try {
+        await destination.send({
+          kind: 'control',
+          body: { clientId, configRevision: null },
+          timeout: 10000,
+        });
+        return {
+          name,
+          status: 'ok',
+          message: `${resolved.url} is reachable and accepts the token`,
+        };
+      } catch (error) {
+        return describeFailure(name, resolved.url, error);
+      } finally {
+        await destination.close();
+      }
+    })
+  );
+}
+
+function describeFailure(name: string, url: string, error: unknown): DoctorCheck {
+  const status = error instanceof TransportError ? error.status : undefined;
+  if (status === undefined) {
+    return { name, status: 'fail', message: `${url} is unreachable: ${errorMessage(error)}` };
+  }
+  if (status === 401 || status === 403) {
+    return { name, status: 'fail', message: `${url} rejected the credentials (${status})` };
+  }
+  if (status === 404 || status === 405 || status === 501) {
+    // No control endpoint, or a transport that cannot poll
+    return {
+      name,
+      status: 'warn',
+      message: `${url} could not be checked without sending data: ${errorMessage(error)}`,
+    };
+  }
+  return { name, status: 'fail', message: `${url} answered with an error: ${errorMessage(error)}` };
+}
+
+async function timed(name: string, run: () => Promise<void>): Promise<DoctorCheck> {
+  const start = Date.now();
+  try {
+    await run();
+    return { name, status: 'ok', message: `collected in ${Date.now() - start}ms` };
+  } catch (error) {
+    return { name, status: 'fail', message: errorMessage(error) };
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
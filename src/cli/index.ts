@@ -0,0 +1,13 @@
+export { parseCommand, runCommand, USAGE } from './commands';
+export { cacheCommand, readQueueFiles, QueueFileInfo } from './cache';
+export { idCommand, readClientId } from './clientId';
+export { doctorCommand, runDoctor } from './doctor';
+export { clientLockPath, withClientLock } from './lock';
+export {
+  ExitCode,
+  CommandName,
+  Command,
+  CommandClient,
+  CommandContext,
+  DoctorCheck,
+} from './types';
@@ -0,0 +1,36 @@
+import * as path from 'path';
+import { LockError, acquireLock } from '../utils/lock';
+import { CommandContext, ExitCode } from './types';
+
+/**
+ * Get the lock file the running client holds
+ */
+export function clientLockPath(cacheDir: string): string {
+  return path.join(cacheDir, 'client.lock');
+}
+
+/**
+ * Run a command that writes the offline queues while holding the client lock
+ * Refuses while the client, or another such command, uses the cache directory
+ */
+export async function withClientLock(
+  context: CommandContext,
+  run: () => ExitCode | Promise<ExitCode>
+): Promise<ExitCode> {
+  let release: () => void;
+  try {
+    release = acquireLock(clientLockPath(context.cacheDir));
+  } catch (error) {
+    if (error instanceof LockError) {
+      console.error(`The client is running (process ${error.pid}); stop it first`);
+      return ExitCode.FAILURE;
+    }
+    throw error;
+  }
+
+  try {
+    return await run();
+  } finally {
+    release();
+  }
+}
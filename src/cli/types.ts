@@ -0,0 +1,62 @@
+import { CliOptions, ClientConfig, ConfigManager } from '../config';
+import { ReportPayload } from '../reporter';
+
+/**
+ * Process exit codes
+ */
+export enum ExitCode {
+  OK = 0, // Success
+  FAILURE = 1, // The command failed, or a doctor check failed
+  USAGE = 2, // Unknown command or invalid flags
+  CONFIG = 3, // The configuration could not be loaded or is invalid
+  UNAVAILABLE = 4, // A server did not accept the data; it stays cached
+}
+
+/**
+ * Command name, the first positional argument
+ */
+export type CommandName =
+  | 'run'
+  | 'collect'
+  | 'send'
+  | 'doctor'
+  | 'cache'
+  | 'id'
+  | 'config'
+  | 'help';
+
+/**
+ * Parsed command
+ */
+export interface Command {
+  name: CommandName;
+  action?: string; // Subcommand, e.g. 'list' for 'cache list'
+}
+
+/**
+ * Client operations used by the commands
+ */
+export interface CommandClient {
+  collectOnce(): Promise<ReportPayload>;
+  sendOnce(): Promise<void>;
+  getConfig(): ClientConfig;
+}
+
+/**
+ * Everything a command needs to run
+ */
+export interface CommandContext {
+  options: CliOptions; // Parsed command-line flags
+  configManager: ConfigManager; // Loads the layered configuration
+  createClient: (readOnly: boolean) => CommandClient; // Create a client; a read-only one never writes the offline queues
+  cacheDir: string; // Directory holding the client ID and the offline queues
+}
+
+/**
+ * Result of one doctor check
+ */
+export interface DoctorCheck {
+  name: string; // What was checked
+  status: 'ok' | 'warn' | 'fail';
+  message: string; // What was found
+}
@@ -0,0 +1,602 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ContainerInfo, ContainerStats } from './types';
+import { ContainerMonitoringConfig } from '../config';
+
+/**
+ * cgroup v1 reports "no limit" as a huge number close to 2^63
+ */
+const V1_UNLIMITED = 2 ** 60;
+
+/**
+ * cgroup directory of a container, e.g. 'docker-<id>.scope' or '<id>'
+ */
+const CONTAINER_CGROUP = /^(?:(docker|cri-containerd|crio|libpod)-)?([0-9a-f]{64})(?:\.scope)?$/;
+
+/**
+ * Runtime by cgroup directory prefix
+ */
+const RUNTIME_PREFIXES: Record<string, string> = {
+  docker: 'docker',
+  'cri-containerd': 'containerd',
+  crio: 'cri-o',
+  libpod: 'podman',
+};
+
+/**
+ * How deep to look for containers below the cgroup root (kubepods nest four levels)
+ */
+const MAX_DEPTH = 6;
+
+/**
+ * cgroup v1 controller hierarchies read by the collector
+ */
+type Controller = 'cpu' | 'cpuacct' | 'memory' | 'blkio' | 'pids';
+
+/**
+ * Raw accounting of one cgroup
+ */
+export interface CgroupCounters {
+  cpuUsageNs?: number;
+  cpuLimit?: number;
+  memoryUsage?: number;
+  memoryLimit?: number;
+  oomKills?: number;
+  readBytes?: number;
+  writeBytes?: number;
+  pids?: number;
+  pidsLimit?: number;
+}
+
+/**
+ * The cgroup the client itself runs in
+ */
+interface SelfCgroup {
+  runtime: string;
+  id?: string;
+  memoryDir?: string;
+  counters: CgroupCounters;
+}
+
+/**
+ * Parse a flat 'key value' cgroup file (cpu.stat, memory.stat, memory.events, ...)
+ * @param content File contents
+ * @returns Numeric values keyed by name
+ */
+export function parseFlatKeyed(content: string): Record<string, number> {
+  const result: Record<string, number> = {};
+
+  for (const line of content.split('\n')) {
+    const [key, value] = line.trim().split(/\s+/);
+    if (key && value !== undefined && Number.isFinite(Number(value))) {
+      result[key] = Number(value);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse a limit file (memory.max, pids.max, memory.limit_in_bytes)
+ * @returns The limit, or undefined when unlimited or unreadable
+ */
+export function parseLimit(content: string): number | undefined {
+  const value = Number(content.trim());
+  return content.trim() === 'max' || !Number.isFinite(value) || value < 0 || value >= V1_UNLIMITED
+    ? undefined
+    : value;
+}
+
+/**
+ * Parse a CPU quota into a number of cores
+ * @param quota Quota per period, 'max' or -1 when unlimited
+ * @param period Period length in the same unit as the quota
+ */
+export function parseCpuQuota(quota: string, period: string): number | undefined {
+  const q = Number(quota);
+  const p = Number(period);
+  return q > 0 && p > 0 ? q / p : undefined;
+}
+
+/**
+ * Parse cgroup v2 io.stat, summing all devices
+ * Lines look like '8:0 rbytes=1024 wbytes=2048 rios=1 wios=2 ...'
+ */
+export function parseIoStat(content: string): { readBytes: number; writeBytes: number } {
+  let readBytes = 0;
+  let writeBytes = 0;
+
+  for (const match of content.matchAll(/\b([rw])bytes=(\d+)/g)) {
+    if (match[1] === 'r') {
+      readBytes += Number(match[2]);
+    } else {
+      writeBytes += Number(match[2]);
+    }
+  }
+
+  return { readBytes, writeBytes };
+}
+
+/**
+ * Parse cgroup v1 blkio.throttle.io_service_bytes, summing all devices
+ * Lines look like '8:0 Read 1024'; the trailing 'Total' line is ignored
+ */
+export function parseBlkioServiceBytes(content: string): {
+  readBytes: number;
+  writeBytes: number;
+} {
+  let readBytes = 0;
+  let writeBytes = 0;
+
+  for (const line of content.split('\n')) {
+    const [device, op, value] = line.trim().split(/\s+/);
+    if (!device?.includes(':')) {
+      continue;
+    }
+    if (op === 'Read') {
+      readBytes += Number(value) || 0;
+    } else if (op === 'Write') {
+      writeBytes += Number(value) || 0;
+    }
+  }
+
+  return { readBytes, writeBytes };
+}
+
+/**
+ * Parse /proc/<pid>/cgroup
+ * @returns cgroup path keyed by controller; the cgroup v2 entry uses the key ''
+ */
+export function parseProcCgroup(content: string): Map<string, string> {
+  const result = new Map<string, string>();
+
+  for (const line of content.split('\n')) {
+    const match = line.trim().match(/^\d+:([^:]*):(.*)$/);
+    if (!match) {
+      continue;
+    }
+    for (const controller of match[1].split(',')) {
+      result.set(controller, match[2]);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Read a file, or undefined if it does not exist or cannot be read
+ */
+async function readOptional(file: string): Promise<string | undefined> {
+  try {
+    return await fs.promises.readFile(file, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse a file holding a single number
+ */
+function toNumber(content: string | undefined): number | undefined {
+  const value = Number(content?.trim());
+  return content !== undefined && content.trim() !== '' && Number.isFinite(value)
+    ? value
+    : undefined;
+}
+
+/**
+ * ContainerCollector class
+ * Reads per-container CPU, memory, OOM, block I/O and PID accounting from cgroup v1 or v2,
+ * and detects whether the client itself runs in a container (Linux only)
+ */
+export class ContainerCollector {
+  private cgroupRoot: string;
+  private dockerDataRoot: string;
+  private version: 1 | 2;
+  private names = new Map<string, string>();
+  private lastSnapshot?: { counters: Map<string, CgroupCounters>; time: number };
+  private selfCgroup?: Promise<SelfCgroup | null>;
+
+  constructor(
+    config?: Partial<ContainerMonitoringConfig>,
+    private procRoot: string = '/proc',
+    private rootDir: string = '/',
+    private podmanContainersPath: string = '/var/lib/containers/storage/overlay-containers/containers.json'
+  ) {
+    this.cgroupRoot = config?.cgroupRoot || '/sys/fs/cgroup';
+    this.dockerDataRoot = config?.dockerDataRoot || '/var/lib/docker';
+    // Hybrid setups mount an empty v2 hierarchy next to the v1 controllers
+    this.version = fs.existsSync(path.join(this.cgroupRoot, 'cgroup.controllers')) ? 2 : 1;
+  }
+
+  /**
+   * Check whether a cgroup filesystem is mounted
+   */
+  isAvailable(): boolean {
+    return fs.existsSync(this.cgroupRoot);
+  }
+
+  /**
+   * Collect statistics for all containers found below the cgroup root
+   * @param timestamp Collection timestamp (Unix milliseconds)
+   * @returns Per-container statistics; rates are absent on the first call
+   */
+  async collect(timestamp: number = Date.now()): Promise<ContainerStats[]> {
+    const containers = await this.findContainers();
+    const previous = this.lastSnapshot;
+    const seconds = previous ? (timestamp - previous.time) / 1000 : 0;
+    const snapshot = new Map<string, CgroupCounters>();
+    const result: ContainerStats[] = [];
+    let podmanNames: Map<string, string> | undefined;
+
+    for (const container of containers) {
+      const counters = await this.readCounters((controller) =>
+        path.join(this.controllerRoot(controller), container.relPath)
+      );
+      snapshot.set(container.id, counters);
+
+      let name = this.names.get(container.id) ?? (await this.lookupDockerName(container.id));
+      if (!name && container.runtime === 'podman') {
+        podmanNames ??= await this.readPodmanNames();
+        name = podmanNames.get(container.id);
+      }
+      if (name) {
+        this.names.set(container.id, name);
+      }
+
+      const prev = previous?.counters.get(container.id);
+      const rate = (curr?: number, last?: number) =>
+        seconds > 0 && curr !== undefined && last !== undefined && curr >= last
+          ? (curr - last) / seconds
+          : undefined;
+      const cpuNsPerSecond = rate(counters.cpuUsageNs, prev?.cpuUsageNs);
+
+      result.push({
+        id: container.id,
+        name: name ?? container.id.slice(0, 12),
+        runtime: container.runtime,
+        cpuUsage: cpuNsPerSecond !== undefined ? (cpuNsPerSecond / 1e9) * 100 : undefined,
+        cpuLimit: counters.cpuLimit,
+        memoryUsage: counters.memoryUsage,
+        memoryLimit: counters.memoryLimit,
+        oomKills: counters.oomKills,
+        blockReadBytes: counters.readBytes,
+        blockWriteBytes: counters.writeBytes,
+        blockReadRate: rate(counters.readBytes, prev?.readBytes),
+        blockWriteRate: rate(counters.writeBytes, prev?.writeBytes),
+        pids: counters.pids,
+        pidsLimit: counters.pidsLimit,
+      });
+    }
+
+    // Forget names of containers that are gone
+    for (const id of this.names.keys()) {
+      if (!snapshot.has(id)) {
+        this.names.delete(id);
+      }
+    }
+
+    this.lastSnapshot = { counters: snapshot, time: timestamp };
+    return result;
+  }
+
+  /**
+   * Detect whether the client runs inside a container
+   * @param hostTotalMemory Host memory in bytes
+   * @returns Container runtime, ID and limits, or undefined when not in a container
+   */
+  async detectSelf(hostTotalMemory: number): Promise<ContainerInfo | undefined> {
+    const self = await this.resolveSelf();
+    if (!self) {
+      return undefined;
+    }
+
+    return {
+      runtime: self.runtime,
+      id: self.id,
+      memoryLimit: self.counters.memoryLimit,
+      cpuLimit: self.counters.cpuLimit,
+      pidsLimit: self.counters.pidsLimit,
+      hostTotalMemory,
+    };
+  }
+
+  /**
+   * Read memory usage of the client's own container
+   * @returns Usage and limit in bytes, or undefined when not in a memory-limited container
+   */
+  async readSelfMemory(): Promise<{ usage: number; limit: number } | undefined> {
+    const self = await this.resolveSelf();
+    if (!self?.memoryDir || self.counters.memoryLimit === undefined) {
+      return undefined;
+    }
+
+    const counters = await this.readCounters(() => self.memoryDir as string);
+    return counters.memoryUsage !== undefined
+      ? { usage: counters.memoryUsage, limit: self.counters.memoryLimit }
+      : undefined;
+  }
+
+  private resolveSelf(): Promise<SelfCgroup | null> {
+    this.selfCgroup ??= this.detectSelfCgroup();
+    return this.selfCgroup;
+  }
+
+  private async detectSelfCgroup(): Promise<SelfCgroup | null> {
+    const runtime = await this.detectRuntime();
+    if (!runtime) {
+      return null;
+    }
+
+    const selfContent = (await readOptional(path.join(this.procRoot, 'self', 'cgroup'))) ?? '';
+    const mountinfo = (await readOptional(path.join(this.procRoot, 'self', 'mountinfo'))) ?? '';
+    const id =
+      selfContent.match(/[0-9a-f]{64}/)?.[0] ??
+      mountinfo.match(/\/containers\/([0-9a-f]{64})\//)?.[1];
+
+    // With a private cgroup namespace the container's cgroup is the mount root;
+    // otherwise fall back to it when the host path is not visible in the container
+    const cgroups = parseProcCgroup(selfContent);
+    const ownDir = (controller: Controller) => {
+      const base = this.controllerRoot(controller);
+      const dir = path.join(base, cgroups.get(this.version === 2 ? '' : controller) ?? '/');
+      return fs.existsSync(dir) ? dir : base;
+    };
+
+    // The effective limit is the tightest one on the way up to the root
+    const counters: CgroupCounters = {};
+    let memoryDir: string | undefined;
+    for (const controller of ['cpu', 'memory', 'pids'] as Controller[]) {
+      const base = this.controllerRoot(controller);
+      for (let dir = ownDir(controller); ; dir = path.dirname(dir)) {
+        const limits = await this.readLimits(controller, dir);
+        const tighter = (key: keyof typeof limits) =>
+          limits[key] !== undefined && (limits[key] as number) < (counters[key] ?? Infinity);
+
+        if (tighter('cpuLimit')) {
+          counters.cpuLimit = limits.cpuLimit;
+        }
+        if (tighter('memoryLimit')) {
+          counters.memoryLimit = limits.memoryLimit;
+          memoryDir = dir;
+        }
+        if (tighter('pidsLimit')) {
+          counters.pidsLimit = limits.pidsLimit;
+        }
+        if (dir === base || !dir.startsWith(base)) {
+          break;
+        }
+      }
+    }
+
+    return { runtime, id, memoryDir, counters };
+  }
+
+  /**
+   * Detect the container runtime the client runs under
+   * @returns Runtime name, or undefined when not in a container
+   */
+  private async detectRuntime(): Promise<string | undefined> {
+    if (fs.existsSync(path.join(this.rootDir, '.dockerenv'))) {
+      return 'docker';
+    }
+    if (fs.existsSync(path.join(this.rootDir, 'run', '.containerenv'))) {
+      return 'podman';
+    }
+
+    const init = (await readOptional(path.join(this.procRoot, '1', 'cgroup'))) ?? '';
+    if (/kubepods/.test(init) || process.env.KUBERNETES_SERVICE_HOST) {
+      return 'kubernetes';
+    }
+    if (/\/docker[/-]/.test(init)) {
+      return 'docker';
+    }
+    if (/libpod/.test(init)) {
+      return 'podman';
+    }
+    if (/containerd/.test(init)) {
+      return 'containerd';
+    }
+    if (/\/lxc[/.]/.test(init)) {
+      return 'lxc';
+    }
+    return undefined;
+  }
+
+  /**
+   * Root directory of a controller hierarchy
+   */
+  private controllerRoot(controller: Controller): string {
+    return this.version === 2 ? this.cgroupRoot : path.join(this.cgroupRoot, controller);
+  }
+
+  /**
+   * Walk the cgroup tree looking for container cgroups
+   * Container cgroups are not descended into
+   */
+  private async findContainers(): Promise<
+    Array<{ id: string; runtime?: string; relPath: string }>
+  > {
+    const base = this.controllerRoot('memory');
+    const result: Array<{ id: string; runtime?: string; relPath: string }> = [];
+    const seen = new Set<string>();
+
+    const walk = async (relPath: string, depth: number): Promise<void> => {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(path.join(base, relPath), { withFileTypes: true });
+      } catch {
+        return;
+      }
+
+      for (const entry of entries) {
+        if (!entry.isDirectory()) {
+          continue;
+        }
+        const childPath = path.join(relPath, entry.name);
+        const match = entry.name.match(CONTAINER_CGROUP);
+
+        if (match && !seen.has(match[2])) {
+          seen.add(match[2]);
+          result.push({
+            id: match[2],
+            runtime: match[1]
+              ? RUNTIME_PREFIXES[match[1]]
+              : /kubepods/.test(relPath)
+                ? 'kubernetes'
+                : path.basename(relPath) === 'docker'
+                  ? 'docker'
+                  : undefined,
+            relPath: childPath,
+          });
+        } else if (!match && depth < MAX_DEPTH) {
+          await walk(childPath, depth + 1);
+        }
+      }
+    };
+
+    await walk('/', 0);
+    return result;
+  }
+
+  /**
+   * Read the accounting files of one cgroup
+   * @param dirFor Directory of the cgroup in each controller hierarchy
+   */
+  private async readCounters(dirFor: (controller: Controller) => string): Promise<CgroupCounters> {
+    const read = (controller: Controller, file: string) =>
+      readOptional(path.join(dirFor(controller), file));
+
+    if (this.version === 2) {
+      const [cpuStat, memoryCurrent, memoryStat, memoryEvents, ioStat, pidsCurrent] =
+        await Promise.all([
+          read('cpu', 'cpu.stat'),
+          read('memory', 'memory.current'),
+          read('memory', 'memory.stat'),
+          read('memory', 'memory.events'),
+          read('blkio', 'io.stat'),
+          read('pids', 'pids.current'),
+        ]);
+      const usageUsec = cpuStat !== undefined ? parseFlatKeyed(cpuStat).usage_usec : undefined;
+      const memory = toNumber(memoryCurrent);
+      const inactiveFile = memoryStat ? (parseFlatKeyed(memoryStat).inactive_file ?? 0) : 0;
+      const io = ioStat !== undefined ? parseIoStat(ioStat) : undefined;
+
+      return {
+        ...(await this.readLimits('memory', dirFor('memory'))),
+        ...(await this.readLimits('cpu', dirFor('cpu'))),
+        ...(await this.readLimits('pids', dirFor('pids'))),
+        cpuUsageNs: usageUsec !== undefined ? usageUsec * 1000 : undefined,
+        memoryUsage: memory !== undefined ? Math.max(0, memory - inactiveFile) : undefined,
+        oomKills: memoryEvents !== undefined ? parseFlatKeyed(memoryEvents).oom_kill : undefined,
+        readBytes: io?.readBytes,
+        writeBytes: io?.writeBytes,
+        pids: toNumber(pidsCurrent),
+      };
+    }
+
+    const [cpuUsage, memoryUsage, memoryStat, oomControl, blkio, pidsCurrent] = await Promise.all([
+      read('cpuacct', 'cpuacct.usage'),
+      read('memory', 'memory.usage_in_bytes'),
+      read('memory', 'memory.stat'),
+      read('memory', 'memory.oom_control'),
+      read('blkio', 'blkio.throttle.io_service_bytes'),
+      read('pids', 'pids.current'),
+    ]);
+    const memory = toNumber(memoryUsage);
+    const inactiveFile = memoryStat ? (parseFlatKeyed(memoryStat).total_inactive_file ?? 0) : 0;
+    const io = blkio !== undefined ? parseBlkioServiceBytes(blkio) : undefined;
+
+    return {
+      ...(await this.readLimits('memory', dirFor('memory'))),
+      ...(await this.readLimits('cpu', dirFor('cpu'))),
+      ...(await this.readLimits('pids', dirFor('pids'))),
+      cpuUsageNs: toNumber(cpuUsage),
+      memoryUsage: memory !== undefined ? Math.max(0, memory - inactiveFile) : undefined,
+      oomKills: oomControl !== undefined ? parseFlatKeyed(oomControl).oom_kill : undefined,
+      readBytes: io?.readBytes,
+      writeBytes: io?.writeBytes,
+      pids: toNumber(pidsCurrent),
+    };
+  }
+
+  /**
+   * Read the limit a controller imposes on one cgroup directory
+   */
+  private async readLimits(
+    controller: Controller,
+    dir: string
+  ): Promise<Pick<CgroupCounters, 'cpuLimit' | 'memoryLimit' | 'pidsLimit'>> {
+    const read = (file: string) => readOptional(path.join(dir, file));
+
+    switch (controller) {
+      case 'cpu': {
+        if (this.version === 2) {
+          const [quota, period] = ((await read('cpu.max')) ?? '').trim().split(/\s+/);
+          return { cpuLimit: parseCpuQuota(quota, period) };
+        }
+        const [quota, period] = await Promise.all([
+          read('cpu.cfs_quota_us'),
+          read('cpu.cfs_period_us'),
+        ]);
+        return { cpuLimit: parseCpuQuota(quota?.trim() ?? '', period?.trim() ?? '') };
+      }
+      case 'memory': {
+        const limit = await read(this.version === 2 ? 'memory.max' : 'memory.limit_in_bytes');
+        return { memoryLimit: limit !== undefined ? parseLimit(limit) : undefined };
+      }
+      case 'pids': {
+        const limit = await read('pids.max');
+        return { pidsLimit: limit !== undefined ? parseLimit(limit) : undefined };
+      }
+      default:
+        return {};
+    }
+  }
+
+  /**
+   * Look up a container name in Docker's metadata
+   * Kubernetes containers run by Docker are named namespace/pod/container
+   */
+  private async lookupDockerName(id: string): Promise<string | undefined> {
+    const content = await readOptional(
+      path.join(this.dockerDataRoot, 'containers', id, 'config.v2.json')
+    );
+    if (!content) {
+      return undefined;
+    }
+
+    try {
+      const config = JSON.parse(content);
+      const labels: Record<string, string> = config?.Config?.Labels ?? {};
+      const pod = labels['io.kubernetes.pod.name'];
+      const container = labels['io.kubernetes.container.name'];
+      if (pod && container) {
+        return `${labels['io.kubernetes.pod.namespace'] ?? 'default'}/${pod}/${container}`;
+      }
+      return typeof config?.Name === 'string' ? config.Name.replace(/^\//, '') : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Read container names from Podman's storage metadata
+   */
+  private async readPodmanNames(): Promise<Map<string, string>> {
+    const result = new Map<string, string>();
+    const content = await readOptional(this.podmanContainersPath);
+
+    try {
+      for (const entry of content ? JSON.parse(content) : []) {
+        if (typeof entry?.id === 'string' && Array.isArray(entry.names) && entry.names[0]) {
+          result.set(entry.id, String(entry.names[0]));
+        }
+      }
+    } catch {
+      // Unreadable metadata; containers are reported by short ID
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,196 @@
+import * as fs from 'fs';
+import { CpuBreakdown, CpuCoreUsage } from './types';
+
+/**
+ * Raw CPU time counters for one line of /proc/stat (in clock ticks)
+ */
+interface CpuTimes {
+  user: number;
+  nice: number;
+  system: number;
+  idle: number;
+  iowait: number;
+  irq: number;
+  softirq: number;
+  steal: number;
+}
+
+/**
+ * Parsed /proc/stat snapshot
+ */
+export interface ProcStatSnapshot {
+  total: CpuTimes; // Aggregate counters of all cores
+  cores: CpuTimes[]; // Counters per core, indexed by core number
+  interrupts: number; // Total interrupts serviced since boot
+  contextSwitches: number; // Total context switches since boot
+}
+
+/**
+ * CPU statistics derived from two consecutive snapshots
+ */
+export interface CpuStats {
+  breakdown: CpuBreakdown;
+  cores: CpuCoreUsage[];
+  interruptsPerSecond: number;
+  contextSwitchesPerSecond: number;
+}
+
+/**
+ * Parse the contents of /proc/stat
+ * @param content File contents
+ * @returns Parsed snapshot
+ */
+export function parseProcStat(content: string): ProcStatSnapshot {
+  const snapshot: ProcStatSnapshot = {
+    total: emptyTimes(),
+    cores: [],
+    interrupts: 0,
+    contextSwitches: 0,
+  };
+
+  for (const line of content.split('\n')) {
+    const fields = line.trim().split(/\s+/);
+    const key = fields[0];
+
+    if (key === 'cpu') {
+      snapshot.total = toTimes(fields.slice(1));
+    } else if (/^cpu\d+$/.test(key)) {
+      snapshot.cores[Number(key.slice(3))] = toTimes(fields.slice(1));
+    } else if (key === 'intr') {
+      snapshot.interrupts = Number(fields[1]) || 0;
+    } else if (key === 'ctxt') {
+      snapshot.contextSwitches = Number(fields[1]) || 0;
+    }
+  }
+
+  return snapshot;
+}
+
+function emptyTimes(): CpuTimes {
+  return { user: 0, nice: 0, system: 0, idle: 0, iowait: 0, irq: 0, softirq: 0, steal: 0 };
+}
+
+function toTimes(values: string[]): CpuTimes {
+  const n = values.map((v) => Number(v) || 0);
+  return {
+    user: n[0] || 0,
+    nice: n[1] || 0,
+    system: n[2] || 0,
+    idle: n[3] || 0,
+    iowait: n[4] || 0,
+    irq: n[5] || 0,
+    softirq: n[6] || 0,
+    steal: n[7] || 0,
+  };
+}
+
+/**
+ * Compute percentage breakdown between two counter sets
+ * Returns null if the counters went backwards or did not advance
+ */
+function computeBreakdown(prev: CpuTimes, curr: CpuTimes): CpuBreakdown | null {
+  const delta = {} as CpuTimes;
+  let total = 0;
+
+  for (const key of Object.keys(curr) as (keyof CpuTimes)[]) {
+    delta[key] = curr[key] - prev[key];
+    if (delta[key] < 0) {
+      return null;
+    }
+    total += delta[key];
+  }
+
+  if (total <= 0) {
+    return null;
+  }
+
+  const pct = (value: number) => (value / total) * 100;
+  return {
+    user: pct(delta.user),
+    nice: pct(delta.nice),
+    system: pct(delta.system),
+    idle: pct(delta.idle),
+    iowait: pct(delta.iowait),
+    irq: pct(delta.irq + delta.softirq),
+    steal: pct(delta.steal),
+  };
+}
+
+/**
+ * CpuStatCollector class
+ * Derives per-core usage, CPU time breakdown and interrupt/context-switch rates
+ * from deltas between consecutive reads of /proc/stat (Linux only)
+ */
+export class CpuStatCollector {
+  private lastSnapshot?: ProcStatSnapshot & { time: number };
+
+  constructor(private statPath: string = '/proc/stat') {}
+
+  /**
+   * Check whether the stat file can be read on this system
+   */
+  isAvailable(): boolean {
+    return fs.existsSync(this.statPath);
+  }
+
+  /**
+   * Read a new snapshot and compute statistics against the previous one
+   * @param timestamp Collection timestamp (Unix milliseconds)
+   * @returns Statistics, or null on the first call or after a counter reset
+   */
+  async collect(timestamp: number = Date.now()): Promise<CpuStats | null> {
+    const content = await fs.promises.readFile(this.statPath, 'utf-8');
+    const snapshot = parseProcStat(content);
+    const previous = this.lastSnapshot;
+    this.lastSnapshot = { ...snapshot, time: timestamp };
+
+    if (!previous) {
+      return null;
+    }
+
+    return computeCpuStats(previous, snapshot, (timestamp - previous.time) / 1000);
+  }
+}
+
+/**
+ * Compute CPU statistics between two snapshots
+ * @param prev Previous snapshot
+ * @param curr Current snapshot
+ * @param seconds Elapsed time between the snapshots
+ * @returns Statistics, or null if the counters were reset
+ */
+export function computeCpuStats(
+  prev: ProcStatSnapshot,
+  curr: ProcStatSnapshot,
+  seconds: number
+): CpuStats | null {
+  const breakdown = computeBreakdown(prev.total, curr.total);
+  if (!breakdown || seconds <= 0) {
+    return null;
+  }
+
+  const cores: CpuCoreUsage[] = [];
+  curr.cores.forEach((times, core) => {
+    const previous = prev.cores[core];
+    const coreBreakdown = previous ? computeBreakdown(previous, times) : null;
+    if (!coreBreakdown) {
+      return;
+    }
+    cores.push({
+      core,
+      usage: 100 - coreBreakdown.idle - (coreBreakdown.iowait ?? 0),
+      user: coreBreakdown.user,
+      system: coreBreakdown.system,
+      iowait: coreBreakdown.iowait,
+      steal: coreBreakdown.steal,
+    });
+  });
+
+  const rate = (a: number, b: number) => (b >= a ? (b - a) / seconds : 0);
+  return {
+    breakdown,
+    cores,
+    interruptsPerSecond: rate(prev.interrupts, curr.interrupts),
+    contextSwitchesPerSecond: rate(prev.contextSwitches, curr.contextSwitches),
+  };
+}
@@ -0,0 +1,239 @@
+import { exec } from 'child_process';
+import { CustomMetric, NagiosState } from './types';
+import { CustomCollectorConfig, CustomMetricFormat } from '../config';
+import { parseDuration } from '../utils/duration';
+import { Logger } from '../utils/logger';
+
+const DEFAULT_TIMEOUT = 10000;
+const MAX_OUTPUT_BYTES = 64 * 1024;
+const NAGIOS_STATES: NagiosState[] = ['OK', 'WARNING', 'CRITICAL', 'UNKNOWN'];
+
+/**
+ * Result of running a command
+ */
+interface CommandResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  timedOut: boolean;
+}
+
+/**
+ * Parsed custom collector
+ */
+interface CustomCollector {
+  name: string;
+  command: string;
+  format: CustomMetricFormat;
+  timeoutMs: number;
+  intervalMs: number;
+}
+
+/**
+ * Parse the output of a 'number' format command
+ * @throws Error if stdout is not a single number
+ */
+export function parseNumberOutput(stdout: string): number {
+  const text = stdout.trim();
+  const value = Number(text);
+  if (text === '' || !Number.isFinite(value)) {
+    throw new Error(`Expected a number, got "${text.slice(0, 100)}"`);
+  }
+  return value;
+}
+
+/**
+ * Parse the output of a 'json' format command
+ * Nested objects are flattened with dots; arrays and null values are dropped
+ * @throws Error if stdout is not a JSON object
+ */
+export function parseJsonOutput(stdout: string): Record<string, number | string | boolean> {
+  const parsed: unknown = JSON.parse(stdout);
+  if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Expected a JSON object');
+  }
+
+  const values: Record<string, number | string | boolean> = {};
+  const flatten = (source: Record<string, unknown>, prefix: string) => {
+    for (const [key, value] of Object.entries(source)) {
+      if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') {
+        values[prefix + key] = value;
+      } else if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+        flatten(value as Record<string, unknown>, `${prefix}${key}.`);
+      }
+    }
+  };
+  flatten(parsed as Record<string, unknown>, '');
+  return values;
+}
+
+/**
+ * Parse Nagios plugin output: 'TEXT | label=value[UOM];warn;crit;min;max ...'
+ * Only the first line is used; quoted labels may contain spaces
+ * @returns Status text and perfdata values (without units)
+ */
+export function parseNagiosOutput(stdout: string): {
+  message: string;
+  values: Record<string, number>;
+} {
+  const firstLine = stdout.split('\n')[0] || '';
+  const separator = firstLine.indexOf('|');
+  const message = (separator >= 0 ? firstLine.slice(0, separator) : firstLine).trim();
+  const values: Record<string, number> = {};
+
+  if (separator >= 0) {
+    const perfdata = firstLine.slice(separator + 1);
+    const pattern = /('([^']+)'|[^\s=]+)=(-?[\d.]+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(perfdata)) !== null) {
+      const value = Number(match[3]);
+      if (Number.isFinite(value)) {
+        values[match[2] ?? match[1]] = value;
+      }
+    }
+  }
+
+  return { message, values };
+}
+
+/**
+ * CustomMetricsCollector class
+ * Runs user-defined commands and converts their output into custom metrics.
+ * Every command is killed after its timeout and commands run concurrently, so a
+ * collection never waits longer than the slowest timeout.
+ */
+export class CustomMetricsCollector {
+  private collectors: CustomCollector[] = [];
+  private lastResults = new Map<string, CustomMetric>();
+  private logger: Logger;
+
+  constructor(configs: CustomCollectorConfig[]) {
+    this.logger = new Logger('CustomMetricsCollector');
+
+    for (const config of configs) {
+      try {
+        if (!config.name || !config.command) {
+          throw new Error('name and command are required');
+        }
+        if (this.collectors.some((collector) => collector.name === config.name)) {
+          throw new Error('name must be unique');
+        }
+        this.collectors.push({
+          name: config.name,
+          command: config.command,
+          format: config.format || 'number',
+          timeoutMs: config.timeout !== undefined ? parseDuration(config.timeout) : DEFAULT_TIMEOUT,
+          intervalMs: config.interval !== undefined ? parseDuration(config.interval) : 0,
+        });
+      } catch (error) {
+        this.logger.error(`Skipping invalid custom collector "${config.name}"`, error);
+      }
+    }
+  }
+
+  /**
+   * Get the number of configured collectors
+   */
+  getCollectorCount(): number {
+    return this.collectors.length;
+  }
+
+  /**
+   * Run all commands that are due and return the latest result of every metric
+   * Commands whose interval has not elapsed yet report their previous result
+   * @param timestamp Collection timestamp (Unix milliseconds)
+   */
+  async collect(timestamp: number = Date.now()): Promise<CustomMetric[]> {
+    const due = this.collectors.filter((collector) => {
+      const last = this.lastResults.get(collector.name);
+      return !last || timestamp - last.collectedAt >= collector.intervalMs;
+    });
+
+    const results = await Promise.all(due.map((collector) => this.run(collector, timestamp)));
+    for (const result of results) {
+      this.lastResults.set(result.name, result);
+    }
+
+    return this.collectors
+      .map((collector) => this.lastResults.get(collector.name))
+      .filter((result): result is CustomMetric => result !== undefined);
+  }
+
+  /**
+   * Run one collector and convert its output
+   * Never throws: failures are reported in the result
+   */
+  private async run(collector: CustomCollector, timestamp: number): Promise<CustomMetric> {
+    const started = Date.now();
+    const metric: CustomMetric = {
+      name: collector.name,
+      status: 'ok',
+      collectedAt: timestamp,
+      durationMs: 0,
+    };
+
+    try {
+      const result = await this.execute(collector.command, collector.timeoutMs);
+      metric.exitCode = result.exitCode;
+
+      if (result.timedOut) {
+        metric.status = 'timeout';
+        metric.error = `Timed out after ${collector.timeoutMs}ms`;
+      } else if (collector.format === 'nagios') {
+        const state = NAGIOS_STATES[result.exitCode];
+        if (!state) {
+          throw new Error(`Unexpected exit code ${result.exitCode}`);
+        }
+        const { message, values } = parseNagiosOutput(result.stdout);
+        metric.state = state;
+        metric.message = message;
+        metric.values = values;
+      } else if (result.exitCode !== 0) {
+        throw new Error(
+          `Exited with code ${result.exitCode}${result.stderr ? `: ${result.stderr.trim()}` : ''}`
+        );
+      } else if (collector.format === 'json') {
+        metric.values = parseJsonOutput(result.stdout);
+      } else {
+        metric.value = parseNumberOutput(result.stdout);
+      }
+    } catch (error) {
+      metric.status = 'error';
+      metric.error = error instanceof Error ? error.message : String(error);
+    }
+
+    metric.durationMs = Date.now() - started;
+    if (metric.status !== 'ok') {
+      this.logger.warn(`Custom metric ${collector.name} failed: ${metric.error}`);
+    }
+    return metric;
+  }
+
+  /**
+   * Run a command through the shell with a timeout
+   */
+  private execute(command: string, timeoutMs: number): Promise<CommandResult> {
+    return new Promise((resolve, reject) => {
+      exec(
+        command,
+        {
+          timeout: timeoutMs,
+          killSignal: 'SIGKILL',
+          maxBuffer: MAX_OUTPUT_BYTES,
+          windowsHide: true,
+        },
+        (error, stdout, stderr) => {
+          if (!error) {
+            resolve({ stdout, stderr, exitCode: 0, timedOut: false });
+          } else if (error.killed && error.signal === 'SIGKILL') {
+            resolve({ stdout, stderr, exitCode: -1, timedOut: true });
+          } else if (typeof error.code === 'number') {
+            resolve({ stdout, stderr, exitCode: error.code, timedOut: false });
+          } else {
+            reject(error);
+          }
+        }
+      );
+    });
+  }
+}
@@ -0,0 +1,133 @@
+import * as fs from 'fs';
+import { DiskIoStats } from './types';
+
+/**
+ * Sector size used by /proc/diskstats, independent of the device's physical sector size
+ */
+const SECTOR_SIZE = 512;
+
+/**
+ * Partition names: sda1, vdb2, xvda1, hdc3, nvme0n1p1, mmcblk0p2
+ * Their I/O is already counted in the whole device
+ */
+const PARTITION = /^((sd|vd|xvd|hd)[a-z]+\d+|(nvme\d+n\d+|mmcblk\d+|nbd\d+)p\d+)$/;
+
+/**
+ * Cumulative counters of one block device
+ */
+export interface DiskCounters {
+  readsCompleted: number;
+  sectorsRead: number;
+  msReading: number;
+  writesCompleted: number;
+  sectorsWritten: number;
+  msWriting: number;
+  msDoingIo: number;
+}
+
+/**
+ * Parse the contents of /proc/diskstats
+ * Loop and RAM devices and partitions are skipped, so each disk is counted once
+ * @param content File contents
+ * @returns Counters keyed by device name
+ */
+export function parseDiskStats(content: string): Map<string, DiskCounters> {
+  const result = new Map<string, DiskCounters>();
+
+  for (const line of content.split('\n')) {
+    const fields = line.trim().split(/\s+/);
+    if (fields.length < 14) {
+      continue;
+    }
+
+    const device = fields[2];
+    if (/^(loop|ram)\d+$/.test(device) || PARTITION.test(device)) {
+      continue;
+    }
+
+    const n = fields.map((v) => Number(v) || 0);
+    result.set(device, {
+      readsCompleted: n[3],
+      sectorsRead: n[5],
+      msReading: n[6],
+      writesCompleted: n[7],
+      sectorsWritten: n[9],
+      msWriting: n[10],
+      msDoingIo: n[12],
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Compute I/O statistics for one device between two counter sets
+ * Counters that went backwards (device re-attached) yield zero for the interval
+ * @param device Device name
+ * @param prev Previous counters
+ * @param curr Current counters
+ * @param seconds Elapsed time between the two reads
+ */
+export function computeDiskIo(
+  device: string,
+  prev: DiskCounters,
+  curr: DiskCounters,
+  seconds: number
+): DiskIoStats {
+  const delta = (key: keyof DiskCounters) =>
+    seconds > 0 && curr[key] >= prev[key] ? curr[key] - prev[key] : 0;
+
+  const reads = delta('readsCompleted');
+  const writes = delta('writesCompleted');
+  const ioMs = delta('msReading') + delta('msWriting');
+  const perSecond = (value: number) => (seconds > 0 ? value / seconds : 0);
+
+  return {
+    device,
+    readBytesPerSec: perSecond(delta('sectorsRead') * SECTOR_SIZE),
+    writeBytesPerSec: perSecond(delta('sectorsWritten') * SECTOR_SIZE),
+    readIops: perSecond(reads),
+    writeIops: perSecond(writes),
+    utilization: seconds > 0 ? Math.min(100, (delta('msDoingIo') / (seconds * 1000)) * 100) : 0,
+    awaitMs: reads + writes > 0 ? ioMs / (reads + writes) : 0,
+  };
+}
+
+/**
+ * DiskIoCollector class
+ * Computes per-device throughput, IOPS, utilisation and await from deltas
+ * between consecutive reads of /proc/diskstats (Linux only)
+ */
+export class DiskIoCollector {
+  private lastSnapshot?: { counters: Map<string, DiskCounters>; time: number };
+
+  constructor(private diskStatsPath: string = '/proc/diskstats') {}
+
+  /**
+   * Check whether the diskstats file can be read on this system
+   */
+  isAvailable(): boolean {
+    return fs.existsSync(this.diskStatsPath);
+  }
+
+  /**
+   * Collect I/O statistics for all block devices
+   * @param timestamp Collection timestamp (Unix milliseconds)
+   * @returns Per-device statistics; rates are zero on the first call
+   */
+  async collect(timestamp: number = Date.now()): Promise<DiskIoStats[]> {
+    const counters = parseDiskStats(await fs.promises.readFile(this.diskStatsPath, 'utf-8'));
+    const previous = this.lastSnapshot;
+    const seconds = previous ? (timestamp - previous.time) / 1000 : 0;
+    const result: DiskIoStats[] = [];
+
+    for (const [device, current] of counters) {
+      result.push(
+        computeDiskIo(device, previous?.counters.get(device) ?? current, current, seconds)
+      );
+    }
+
+    this.lastSnapshot = { counters, time: timestamp };
+    return result;
+  }
+}
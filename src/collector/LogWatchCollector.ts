@@ -0,0 +1,346 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LogMatchCount } from './types';
+import { LogWatchConfig } from '../config';
+import { Logger } from '../utils/logger';
+
+const DEFAULT_MAX_LINE_LENGTH = 256;
+const CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * Upper bound on bytes read from one file per collection; the rest is read next time
+ */
+const MAX_READ_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Lines longer than this are cut into pieces instead of buffered
+ */
+const MAX_PENDING_BYTES = 1024 * 1024;
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Position in a log file, persisted across restarts
+ */
+interface FileOffset {
+  dev: number;
+  ino: number;
+  offset: number;
+}
+
+/**
+ * Parsed log watch entry
+ */
+interface LogWatch {
+  path: string;
+  patterns: Array<{ name: string; regex: RegExp }>;
+  sampleLines: number;
+  maxLineLength: number;
+  redact: RegExp[];
+}
+
+/**
+ * Open file being tailed
+ */
+interface TailState extends FileOffset {
+  handle: fs.promises.FileHandle;
+}
+
+/**
+ * Replace redacted parts of a line and cap its length
+ * @param line Matching line
+ * @param redact Patterns whose matches are replaced with '[REDACTED]'
+ * @param maxLength Maximum length in characters
+ */
+export function sanitizeLine(line: string, redact: RegExp[], maxLength: number): string {
+  let result = line;
+  for (const pattern of redact) {
+    result = result.replace(pattern, REDACTED);
+  }
+  return result.length > maxLength ? result.slice(0, maxLength) : result;
+}
+
+/**
+ * LogWatchCollector class
+ * Tails log files and counts lines matching named patterns per collection interval.
+ * Rotation (the path points at a new file) and truncation are detected; the rest of a
+ * rotated file is read before switching to the new one. Offsets are persisted so a
+ * restart continues where the previous run stopped; one-shot collections read them
+ * without saving, so they do not move the running client's positions.
+ */
+export class LogWatchCollector {
+  private watches: LogWatch[] = [];
+  private tails = new Map<string, TailState>();
+  private savedOffsets: Record<string, FileOffset> = {};
+  private logger: Logger;
+
+  constructor(
+    configs: LogWatchConfig[],
+    private offsetsPath: string = path.join('.cache', 'log-offsets.json'),
+    private persistOffsets: boolean = true
+  ) {
+    this.logger = new Logger('LogWatchCollector');
+
+    const names = new Set<string>();
+    for (const config of configs) {
+      try {
+        this.watches.push(this.parseWatch(config, names));
+      } catch (error) {
+        this.logger.error(`Skipping invalid log watch "${config.path}"`, error);
+      }
+    }
+
+    this.savedOffsets = this.loadOffsets();
+  }
+
+  /**
+   * Get the number of watched files
+   */
+  getFileCount(): number {
+    return this.watches.length;
+  }
+
+  /**
+   * Read lines appended since the previous collection and count pattern matches
+   * The first collection of a file never seen before starts at its end
+   */
+  async collect(): Promise<LogMatchCount[]> {
+    const results: LogMatchCount[] = [];
+
+    for (const watch of this.watches) {
+      const counts = watch.patterns.map(
+        (pattern): LogMatchCount => ({
+          name: pattern.name,
+          file: watch.path,
+          count: 0,
+          lines: watch.sampleLines > 0 ? [] : undefined,
+        })
+      );
+
+      try {
+        await this.readNewLines(watch, (line) => {
+          watch.patterns.forEach((pattern, index) => {
+            if (!pattern.regex.test(line)) {
+              return;
+            }
+            const result = counts[index];
+            result.count++;
+            if (result.lines) {
+              result.lines.push(sanitizeLine(line, watch.redact, watch.maxLineLength));
+              if (result.lines.length > watch.sampleLines) {
+                result.lines.shift();
+              }
+            }
+          });
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        for (const result of counts) {
+          result.error = message;
+        }
+      }
+
+      results.push(...counts);
+    }
+
+    if (this.persistOffsets) {
+      await this.saveOffsets();
+    }
+    return results;
+  }
+
+  /**
+   * Close all open files
+   */
+  async close(): Promise<void> {
+    for (const tail of this.tails.values()) {
+      await tail.handle.close().catch(() => undefined);
+    }
+    this.tails.clear();
+  }
+
+  private parseWatch(config: LogWatchConfig, names: Set<string>): LogWatch {
+    if (!config.path) {
+      throw new Error('path is required');
+    }
+    if (!Array.isArray(config.patterns) || config.patterns.length === 0) {
+      throw new Error('at least one pattern is required');
+    }
+
+    const patterns = config.patterns.map((pattern) => {
+      if (!pattern.name || !pattern.regex) {
+        throw new Error('patterns need a name and a regex');
+      }
+      if (names.has(pattern.name)) {
+        throw new Error(`pattern name "${pattern.name}" must be unique`);
+      }
+      names.add(pattern.name);
+      // Global and sticky flags would make test() stateful
+      const flags = (pattern.flags ?? '').replace(/[gy]/g, '');
+      return { name: pattern.name, regex: new RegExp(pattern.regex, flags) };
+    });
+
+    return {
+      path: path.resolve(config.path),
+      patterns,
+      sampleLines: Math.max(0, config.sampleLines ?? 0),
+      maxLineLength: config.maxLineLength ?? DEFAULT_MAX_LINE_LENGTH,
+      redact: (config.redact ?? []).map((pattern) => new RegExp(pattern, 'g')),
+    };
+  }
+
+  /**
+   * Feed lines appended since the last read to a callback
+   * @throws Error if the file does not exist and is not already open
+   */
+  private async readNewLines(watch: LogWatch, onLine: (line: string) => void): Promise<void> {
+    let current: fs.Stats | undefined;
+    try {
+      current = await fs.promises.stat(watch.path);
+    } catch (error) {
+      if (!this.tails.has(watch.path)) {
+        throw error;
+      }
+      // Rotated away and not recreated yet; keep reading the old file
+    }
+
+    let tail = this.tails.get(watch.path);
+    if (!tail && current) {
+      tail = await this.open(watch.path, current, this.startOffset(watch.path, current));
+    }
+    if (!tail) {
+      return;
+    }
+
+    const reachedEnd = await this.drain(tail, onLine);
+
+    // The path now points at a new file: once the old one is fully read, continue with the new one
+    if (reachedEnd && current && (current.ino !== tail.ino || current.dev !== tail.dev)) {
+      await tail.handle.close().catch(() => undefined);
+      this.tails.delete(watch.path);
+      tail = await this.open(watch.path, current, 0);
+      await this.drain(tail, onLine);
+    }
+  }
+
+  /**
+   * Where to start reading a file that is not open yet
+   */
+  private startOffset(filePath: string, stats: fs.Stats): number {
+    const saved = this.savedOffsets[filePath];
+    if (!saved) {
+      // Never seen before: only count lines written from now on
+      return stats.size;
+    }
+    if (saved.ino !== stats.ino || saved.dev !== stats.dev || saved.offset > stats.size) {
+      // Rotated or truncated while the client was not running
+      return 0;
+    }
+    return saved.offset;
+  }
+
+  private async open(filePath: string, stats: fs.Stats, offset: number): Promise<TailState> {
+    const tail: TailState = {
+      handle: await fs.promises.open(filePath, 'r'),
+      dev: stats.dev,
+      ino: stats.ino,
+      offset,
+    };
+    this.tails.set(filePath, tail);
+    return tail;
+  }
+
+  /**
+   * Read complete lines from the current offset to the end of the file
+   * A trailing partial line is left for the next read
+   * @returns Whether the end of the file was reached
+   */
+  private async drain(tail: TailState, onLine: (line: string) => void): Promise<boolean> {
+    const { size } = await tail.handle.stat();
+    if (size < tail.offset) {
+      // Truncated in place (e.g. copytruncate)
+      tail.offset = 0;
+    }
+
+    const end = Math.min(size, tail.offset + MAX_READ_BYTES);
+    const buffer = Buffer.alloc(Math.min(CHUNK_SIZE, Math.max(0, end - tail.offset)));
+    let position = tail.offset;
+    let pending = Buffer.alloc(0);
+
+    while (position < end) {
+      const { bytesRead } = await tail.handle.read(
+        buffer,
+        0,
+        Math.min(buffer.length, end - position),
+        position
+      );
+      if (bytesRead === 0) {
+        break;
+      }
+      position += bytesRead;
+
+      const data = Buffer.concat([pending, buffer.subarray(0, bytesRead)]);
+      const lastNewline = data.lastIndexOf(0x0a);
+      if (lastNewline < 0 && data.length < MAX_PENDING_BYTES) {
+        pending = data;
+        continue;
+      }
+
+      const complete = lastNewline < 0 ? data.length : lastNewline;
+      for (const line of data.subarray(0, complete).toString('utf-8').split('\n')) {
+        onLine(line.endsWith('\r') ? line.slice(0, -1) : line);
+      }
+      pending = data.subarray(lastNewline < 0 ? data.length : lastNewline + 1);
+    }
+
+    tail.offset = position - pending.length;
+    return position >= size;
+  }
+
+  private loadOffsets(): Record<string, FileOffset> {
+    try {
+      if (fs.existsSync(this.offsetsPath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.offsetsPath, 'utf-8'));
+        if (parsed && typeof parsed === 'object') {
+          return parsed;
+        }
+      }
+    } catch (error) {
+      this.logger.error('Failed to load log offsets, starting at the end of each file', error);
+    }
+    return {};
+  }
+
+  /**
+   * Persist the offsets of all open files
+   * Written to a temporary file and renamed, so a crash never leaves a partial file
+   */
+  private async saveOffsets(): Promise<void> {
+    // Files that are missing right now keep their last known position
+    const offsets: Record<string, FileOffset> = {};
+    for (const watch of this.watches) {
+      const tail = this.tails.get(watch.path);
+      const offset = tail
+        ? { dev: tail.dev, ino: tail.ino, offset: tail.offset }
+        : this.savedOffsets[watch.path];
+      if (offset) {
+        offsets[watch.path] = offset;
+      }
+    }
+
+    const content = JSON.stringify(offsets, null, 2);
+    if (content === JSON.stringify(this.savedOffsets, null, 2)) {
+      return;
+    }
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.offsetsPath), { recursive: true });
+      const tempPath = `${this.offsetsPath}.tmp`;
+      await fs.promises.writeFile(tempPath, content, 'utf-8');
+      await fs.promises.rename(tempPath, this.offsetsPath);
+      this.savedOffsets = offsets;
+    } catch (error) {
+      this.logger.error('Failed to save log offsets', error);
+    }
+  }
+}
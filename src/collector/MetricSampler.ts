@@ -0,0 +1,231 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as si from 'systeminformation';
+import { AggregatedMetrics, MetricSummary } from './types';
+import { NetworkCollector, sumInterfaceRates } from './NetworkCollector';
+import { SampledMetric, SamplingConfig } from '../config';
+import { parseDuration } from '../utils/duration';
+import { Logger } from '../utils/logger';
+
+const MIN_INTERVAL = 1000;
+const DEFAULT_INTERVAL = 5000;
+
+/**
+ * Summarize a window of samples
+ * p95 uses the nearest-rank method
+ * @param values Samples (at least one)
+ */
+export function summarize(values: number[]): MetricSummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  const sum = sorted.reduce((total, value) => total + value, 0);
+
+  return {
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    avg: sum / sorted.length,
+    p95: sorted[Math.max(0, Math.ceil(sorted.length * 0.95) - 1)],
+    count: sorted.length,
+  };
+}
+
+/**
+ * MetricSampler class
+ * Samples a few cheap metrics at a faster rate than reports are sent and summarizes
+ * each reporting window, so short spikes between two reports are not missed.
+ * At most maxSamples values are kept per metric; older ones are dropped.
+ */
+export class MetricSampler {
+  private intervalMs: number;
+  private metrics: SampledMetric[];
+  private maxSamples: number;
+  private samples = new Map<SampledMetric, number[]>();
+  private windowStart: number | null = null;
+  private windowEnd: number | null = null;
+  private lastCpu?: { busy: number; total: number };
+  private networkCollector: NetworkCollector;
+  private networkPrimed = false; // The first network sample has no previous counters
+  private intervalId: NodeJS.Timeout | null = null;
+  private sampling = false;
+  private logger: Logger;
+
+  constructor(
+    config: SamplingConfig,
+    private netDevPath: string = '/proc/net/dev'
+  ) {
+    this.logger = new Logger('MetricSampler');
+    this.networkCollector = new NetworkCollector(netDevPath);
+
+    const intervalMs = parseDuration(config.interval ?? DEFAULT_INTERVAL);
+    if (intervalMs < MIN_INTERVAL) {
+      this.logger.warn(`Sampling interval ${intervalMs}ms is too short, using ${MIN_INTERVAL}ms`);
+    }
+    this.intervalMs = Math.max(MIN_INTERVAL, intervalMs);
+    this.metrics = [...new Set(config.metrics)];
+    this.maxSamples = Math.max(1, config.maxSamples);
+  }
+
+  /**
+   * Get the sampling interval in milliseconds
+   */
+  getInterval(): number {
+    return this.intervalMs;
+  }
+
+  /**
+   * Start sampling in the background
+   */
+  start(): void {
+    if (this.intervalId) {
+      return;
+    }
+    this.sample();
+    this.intervalId = setInterval(() => this.sample(), this.intervalMs);
+  }
+
+  /**
+   * Stop sampling
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  /**
+   * Take one sample of every configured metric
+   * Skipped if the previous sample is still being taken
+   */
+  async sample(timestamp: number = Date.now()): Promise<void> {
+    if (this.sampling) {
+      return;
+    }
+    this.sampling = true;
+
+    try {
+      const values = await this.readMetrics(timestamp);
+      for (const metric of this.metrics) {
+        const value = values[metric];
+        if (value === undefined || !Number.isFinite(value)) {
+          continue;
+        }
+        const buffer = this.samples.get(metric) ?? [];
+        buffer.push(value);
+        if (buffer.length > this.maxSamples) {
+          buffer.shift();
+        }
+        this.samples.set(metric, buffer);
+      }
+      this.windowStart ??= timestamp;
+      this.windowEnd = timestamp;
+    } catch (error) {
+      this.logger.error('Failed to sample metrics', error);
+    } finally {
+      this.sampling = false;
+    }
+  }
+
+  /**
+   * Summarize the samples taken since the previous call and start a new window
+   * @returns The window summary, or undefined if no samples were taken
+   */
+  takeWindow(): AggregatedMetrics | undefined {
+    if (this.windowStart === null || this.windowEnd === null) {
+      return undefined;
+    }
+
+    const metrics: Record<string, MetricSummary> = {};
+    for (const [metric, values] of this.samples) {
+      if (values.length > 0) {
+        metrics[metric] = summarize(values);
+      }
+    }
+
+    const window: AggregatedMetrics = {
+      windowStart: this.windowStart,
+      windowEnd: this.windowEnd,
+      sampleInterval: this.intervalMs,
+      metrics,
+    };
+
+    this.samples.clear();
+    this.windowStart = null;
+    this.windowEnd = null;
+    return window;
+  }
+
+  /**
+   * Read the current value of every configured metric
+   * Rates (CPU, network) are undefined on the first sample
+   */
+  private async readMetrics(timestamp: number): Promise<Partial<Record<SampledMetric, number>>> {
+    const values: Partial<Record<SampledMetric, number>> = {};
+    const wants = (...metrics: SampledMetric[]) => metrics.some((m) => this.metrics.includes(m));
+
+    if (wants('cpuUsage')) {
+      values.cpuUsage = this.readCpuUsage();
+    }
+
+    if (wants('memoryUsage', 'swapUsage')) {
+      const mem = await si.mem();
+      // Same calculation as SystemCollector: on Linux, cache and buffers are not counted as used
+      const used =
+        os.platform() === 'linux' && mem.available !== undefined
+          ? mem.total - mem.available
+          : mem.used;
+      values.memoryUsage = mem.total > 0 ? (used / mem.total) * 100 : 0;
+      values.swapUsage = mem.swaptotal > 0 ? (mem.swapused / mem.swaptotal) * 100 : 0;
+    }
+
+    if (wants('networkUpload', 'networkDownload')) {
+      const rates = await this.readNetworkRates(timestamp);
+      values.networkUpload = rates?.upload;
+      values.networkDownload = rates?.download;
+    }
+
+    if (wants('load1') && os.platform() !== 'win32') {
+      values.load1 = os.loadavg()[0];
+    }
+
+    return values;
+  }
+
+  /**
+   * CPU usage since the previous sample, from os.cpus() times
+   */
+  private readCpuUsage(): number | undefined {
+    let busy = 0;
+    let total = 0;
+    for (const cpu of os.cpus()) {
+      const { user, nice, sys, idle, irq } = cpu.times;
+      busy += user + nice + sys + irq;
+      total += user + nice + sys + idle + irq;
+    }
+
+    const previous = this.lastCpu;
+    this.lastCpu = { busy, total };
+    if (!previous || total <= previous.total) {
+      return undefined;
+    }
+    return Math.min(100, Math.max(0, ((busy - previous.busy) / (total - previous.total)) * 100));
+  }
+
+  /**
+   * Network throughput since the previous sample, over the same interfaces as the
+   * reported totals: per-interface deltas of the interfaces that are up, where an
+   * interface that reset or appeared since the previous sample adds nothing
+   * Read from /proc/net/dev; not sampled on other platforms
+   */
+  private async readNetworkRates(
+    timestamp: number
+  ): Promise<{ upload: number; download: number } | undefined> {
+    if (os.platform() !== 'linux' || !fs.existsSync(this.netDevPath)) {
+      return undefined;
+    }
+
+    const rates = sumInterfaceRates(await this.networkCollector.collect(timestamp));
+    const primed = this.networkPrimed;
+    this.networkPrimed = true;
+    return primed ? rates : undefined;
+  }
+}
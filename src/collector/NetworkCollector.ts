@@ -0,0 +1,168 @@
+import * as si from 'systeminformation';
+import * as fs from 'fs';
+import * as os from 'os';
+import { NetworkInterfaceStats } from './types';
+
+/**
+ * Cumulative counters of one network interface
+ */
+export interface NetCounters {
+  rxBytes: number;
+  txBytes: number;
+  rxPackets?: number;
+  txPackets?: number;
+  rxErrors: number;
+  txErrors: number;
+  rxDropped: number;
+  txDropped: number;
+}
+
+/**
+ * Parse the contents of /proc/net/dev
+ * @param content File contents
+ * @returns Counters keyed by interface name
+ */
+export function parseProcNetDev(content: string): Map<string, NetCounters> {
+  const result = new Map<string, NetCounters>();
+
+  for (const line of content.split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator < 0) {
+      continue;
+    }
+
+    const iface = line.slice(0, separator).trim();
+    const n = line
+      .slice(separator + 1)
+      .trim()
+      .split(/\s+/)
+      .map((v) => Number(v) || 0);
+    if (!iface || n.length < 16) {
+      continue;
+    }
+
+    result.set(iface, {
+      rxBytes: n[0],
+      rxPackets: n[1],
+      rxErrors: n[2],
+      rxDropped: n[3],
+      txBytes: n[8],
+      txPackets: n[9],
+      txErrors: n[10],
+      txDropped: n[11],
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Per-second rate between two counter values
+ * A counter that went backwards (reset or wrap) yields 0 instead of a negative rate
+ */
+function rate(previous: number, current: number, seconds: number): number {
+  if (seconds <= 0 || current < previous) {
+    return 0;
+  }
+  return (current - previous) / seconds;
+}
+
+/**
+ * Total transfer rates of the interfaces that are up, as reported in the dynamic status
+ * @param stats Per-interface statistics from NetworkCollector.collect
+ * @returns Bytes per second
+ */
+export function sumInterfaceRates(stats: NetworkInterfaceStats[]): {
+  upload: number;
+  download: number;
+} {
+  let upload = 0;
+  let download = 0;
+  for (const iface of stats) {
+    if (iface.operstate === 'up') {
+      upload += iface.txRate;
+      download += iface.rxRate;
+    }
+  }
+  return { upload, download };
+}
+
+/**
+ * NetworkCollector class
+ * Collects per-interface counters and computes transfer rates from deltas
+ * between consecutive collections
+ */
+export class NetworkCollector {
+  private lastSnapshot = new Map<string, { counters: NetCounters; time: number }>();
+
+  constructor(private netDevPath: string = '/proc/net/dev') {}
+
+  /**
+   * Collect statistics for all non-internal interfaces
+   * @param timestamp Collection timestamp (Unix milliseconds)
+   * @returns Per-interface statistics
+   */
+  async collect(timestamp: number = Date.now()): Promise<NetworkInterfaceStats[]> {
+    const ifaces = (await si.networkInterfaces()).filter(
+      (i) => !i.internal && !i.iface.toLowerCase().includes('loopback')
+    );
+    const counters = await this.readCounters(ifaces.map((i) => i.iface));
+    const result: NetworkInterfaceStats[] = [];
+    const nextSnapshot = new Map<string, { counters: NetCounters; time: number }>();
+
+    for (const iface of ifaces) {
+      const current = counters.get(iface.iface);
+      if (!current) {
+        continue;
+      }
+
+      // Interfaces that were not seen last time start with a zero rate
+      const previous = this.lastSnapshot.get(iface.iface);
+      const seconds = previous ? (timestamp - previous.time) / 1000 : 0;
+
+      result.push({
+        iface: iface.iface,
+        operstate: iface.operstate,
+        speed: iface.speed && iface.speed > 0 ? iface.speed : undefined,
+        ...current,
+        rxRate: previous ? rate(previous.counters.rxBytes, current.rxBytes, seconds) : 0,
+        txRate: previous ? rate(previous.counters.txBytes, current.txBytes, seconds) : 0,
+      });
+      nextSnapshot.set(iface.iface, { counters: current, time: timestamp });
+    }
+
+    // Interfaces that disappeared are dropped from the snapshot
+    this.lastSnapshot = nextSnapshot;
+    return result;
+  }
+
+  /**
+   * Read cumulative counters, from /proc/net/dev on Linux and systeminformation elsewhere
+   */
+  private async readCounters(ifaces: string[]): Promise<Map<string, NetCounters>> {
+    if (os.platform() === 'linux' && fs.existsSync(this.netDevPath)) {
+      return parseProcNetDev(await fs.promises.readFile(this.netDevPath, 'utf-8'));
+    }
+
+    const result = new Map<string, NetCounters>();
+    for (const iface of ifaces) {
+      try {
+        const stat = (await si.networkStats(iface))[0];
+        if (!stat) continue;
+
+        result.set(iface, {
+          rxBytes: stat.rx_bytes || 0,
+          txBytes: stat.tx_bytes || 0,
+          rxErrors: stat.rx_errors || 0,
+          txErrors: stat.tx_errors || 0,
+          rxDropped: stat.rx_dropped || 0,
+          txDropped: stat.tx_dropped || 0,
+        });
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      } catch (e) {
+        /* empty */
+      }
+    }
+    return result;
+  }
+}
@@ -0,0 +1,65 @@
+import * as si from 'systeminformation';
+import { ProcessInfo, TopProcesses } from './types';
+import { ProcessMonitoringConfig } from '../config';
+
+/**
+ * ProcessCollector class
+ * Collects the top-N resource consuming processes
+ */
+export class ProcessCollector {
+  constructor(private config: ProcessMonitoringConfig) {}
+
+  /**
+   * Collect top processes for every configured sort key
+   * @returns Promise resolving to TopProcesses
+   */
+  async collect(): Promise<TopProcesses> {
+    const processes = await si.processes();
+    const list = processes.list.map((proc) => this.toProcessInfo(proc));
+    const result: TopProcesses = {};
+
+    for (const key of this.config.sortBy) {
+      if (key === 'cpu') {
+        result.byCpu = this.top(list, (a, b) => b.cpuPercent - a.cpuPercent);
+      } else if (key === 'memory') {
+        result.byMemory = this.top(list, (a, b) => b.memoryRss - a.memoryRss);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Sort a copy of the list and keep the first topN entries
+   */
+  private top(
+    list: ProcessInfo[],
+    compare: (a: ProcessInfo, b: ProcessInfo) => number
+  ): ProcessInfo[] {
+    return [...list].sort(compare).slice(0, this.config.topN);
+  }
+
+  /**
+   * Convert systeminformation process data to ProcessInfo
+   */
+  private toProcessInfo(proc: si.Systeminformation.ProcessesProcessData): ProcessInfo {
+    const info: ProcessInfo = {
+      pid: proc.pid,
+      name: proc.name,
+      user: proc.user || '',
+      cpuPercent: proc.cpu || 0,
+      memoryRss: (proc.memRss || 0) * 1024, // systeminformation reports RSS in KB
+      state: proc.state || 'unknown',
+    };
+
+    if (this.config.includeCommandLine) {
+      const command = [proc.command, proc.params].filter(Boolean).join(' ');
+      info.command =
+        command.length > this.config.maxCommandLength
+          ? command.slice(0, this.config.maxCommandLength)
+          : command;
+    }
+
+    return info;
+  }
+}
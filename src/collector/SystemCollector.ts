@@ -1,22 +1,143 @@
 import * as si from 'systeminformation';
 import * as os from 'os';
-import { DynamicSystemStatus, StaticSystemInfo, DiskInfo, DiskUsage } from './types';
+import {
+  DynamicSystemStatus,
+  StaticSystemInfo,
+  DiskInfo,
+  DiskUsage,
+  TopProcesses,
+  CpuBreakdown,
+  CpuCoreUsage,
+  LoadAverage,
+  DiskIoStats,
+  ContainerInfo,
+  ContainerStats,
+  SystemdUnitStatus,
+  LogMatchCount,
+} from './types';
+import { ProcessCollector } from './ProcessCollector';
+import { CpuStatCollector, CpuStats } from './CpuStatCollector';
+import { NetworkCollector, sumInterfaceRates } from './NetworkCollector';
+import { DiskIoCollector } from './DiskIoCollector';
+import { CustomMetricsCollector } from './CustomMetricsCollector';
+import { ContainerCollector } from './ContainerCollector';
+import { SystemdCollector } from './SystemdCollector';
+import { LogWatchCollector } from './LogWatchCollector';
+import { ClientConfig } from '../config';
 import { Logger } from '../utils/logger';
 
+/**
+ * Configuration fields used by the collector
+ */
+export type CollectorConfig = Partial<
+  Pick<
+    ClientConfig,
+    | 'location'
+    | 'processMonitoring'
+    | 'customCollectors'
+    | 'containerMonitoring'
+    | 'systemdMonitoring'
+    | 'logWatch'
+  >
+>;
+
+/**
+ * SystemCollector options
+ */
+export interface SystemCollectorOptions {
+  persistLogOffsets?: boolean; // Save log watch positions (default true; off for one-shot collection)
+}
+
 /**
  * SystemCollector class
  * Responsible for collecting both static system information and dynamic system status
  */
 export class SystemCollector {
   private logger: Logger;
-  private lastNetSnapshot?: {
-    rx: number;
-    tx: number;
-    time: number;
-  };
-
-  constructor(private config?: { location?: string }) {
+  private networkCollector = new NetworkCollector();
+
+  private processCollector?: ProcessCollector;
+  private cpuStatCollector?: CpuStatCollector;
+  private diskIoCollector?: DiskIoCollector;
+  private customMetricsCollector?: CustomMetricsCollector;
+  private containerCollector?: ContainerCollector;
+  private systemdCollector?: SystemdCollector;
+  private logWatchCollector?: LogWatchCollector;
+  private durations: Record<string, number> = {};
+  private configured = false; // updateConfig has built the collectors once
+
+  constructor(
+    private config?: CollectorConfig,
+    private options: SystemCollectorOptions = {}
+  ) {
     this.logger = new Logger('SystemCollector');
+
+    this.updateConfig(config);
+
+    const cpuStatCollector = new CpuStatCollector();
+    if (os.platform() === 'linux' && cpuStatCollector.isAvailable()) {
+      this.cpuStatCollector = cpuStatCollector;
+    }
+
+    const diskIoCollector = new DiskIoCollector();
+    if (os.platform() === 'linux' && diskIoCollector.isAvailable()) {
+      this.diskIoCollector = diskIoCollector;
+    }
+  }
+
+  /**
+   * Apply a (re)loaded configuration
+   * Collectors keep state between collections (command intervals, counters, open log
+   * files), so only those whose configuration section changed are rebuilt
+   * Takes effect with the next collection
+   */
+  updateConfig(config?: CollectorConfig): void {
+    const previous = this.config;
+    this.config = config;
+    const changed = (field: keyof CollectorConfig) =>
+      !this.configured || JSON.stringify(previous?.[field]) !== JSON.stringify(config?.[field]);
+
+    if (changed('processMonitoring')) {
+      this.processCollector = config?.processMonitoring?.enabled
+        ? new ProcessCollector(config.processMonitoring)
+        : undefined;
+    }
+    if (changed('customCollectors')) {
+      this.customMetricsCollector = config?.customCollectors?.length
+        ? new CustomMetricsCollector(config.customCollectors)
+        : undefined;
+    }
+
+    if (changed('logWatch')) {
+      // Offsets are persisted, so a new watcher continues where the old one stopped
+      this.logWatchCollector?.close().catch((error) => {
+        this.logger.error('Failed to close watched log files', error);
+      });
+      this.logWatchCollector = config?.logWatch?.length
+        ? new LogWatchCollector(config.logWatch, undefined, this.options.persistLogOffsets ?? true)
+        : undefined;
+    }
+
+    if (changed('systemdMonitoring')) {
+      const systemdCollector = new SystemdCollector(config?.systemdMonitoring);
+      this.systemdCollector =
+        config?.systemdMonitoring?.enabled &&
+        os.platform() === 'linux' &&
+        systemdCollector.isAvailable()
+          ? systemdCollector
+          : undefined;
+    }
+
+    if (changed('containerMonitoring')) {
+      // Also used to detect whether the client itself runs in a container
+      const containerCollector = new ContainerCollector(config?.containerMonitoring);
+      this.containerCollector =
+        os.platform() === 'linux' && containerCollector.isAvailable()
+          ? containerCollector
+          : undefined;
+    }
+
+    this.configured = true;
   }
 
   /**
@@ -75,21 +196,26 @@ export class SystemCollector {
       // Get geographic location (simplified - using timezone as proxy)
       // In production, this could use IP geolocation services for more accurate location
       const autoLocation = this.getLocation();
-      
+
       // Use custom location from config if provided, otherwise use automatic detection
       const location = this.config?.location?.trim() || autoLocation;
 
+      // Inside a container, report the container's memory limit instead of the host's memory
+      const container = await this.detectContainer(memInfo.total);
+      const totalMemory = Math.min(memInfo.total, container?.memoryLimit ?? Infinity);
+
       return {
         cpuModel: cpuInfo.brand || 'Unknown',
         cpuCores: cpuInfo.cores || os.cpus().length,
         cpuArch: os.arch(),
         systemVersion: `${osInfo.distro} ${osInfo.release}`.trim() || osInfo.platform,
         systemModel: `${systemInfo.manufacturer} ${systemInfo.model}`.trim() || 'Unknown',
-        totalMemory: memInfo.total,
+        totalMemory: totalMemory,
         totalSwap: memInfo.swaptotal,
         totalDisk: totalDisk,
         disks: disks,
         location: location,
+        container: container,
       };
     } catch (error) {
       this.logger.error('Failed to collect static system info', error);
@@ -106,20 +232,21 @@ export class SystemCollector {
    * @returns Promise resolving to DynamicSystemStatus
    */
   async collectDynamicStatus(): Promise<DynamicSystemStatus> {
+    this.durations = {};
     try {
       const timestamp = Date.now();
 
       // Collect current CPU load
-      const currentLoad = await si.currentLoad();
+      const currentLoad = await this.timed('cpuLoad', () => si.currentLoad());
 
       // Collect CPU speed
-      const cpuSpeed = await si.cpuCurrentSpeed();
+      const cpuSpeed = await this.timed('cpuSpeed', () => si.cpuCurrentSpeed());
 
       // Collect memory usage
-      const memInfo = await si.mem();
+      const memInfo = await this.timed('memory', () => si.mem());
 
       // Collect disk usage
-      const fsSize = await si.fsSize();
+      const fsSize = await this.timed('filesystems', () => si.fsSize());
       const totalDiskSize = fsSize.reduce((sum, disk) => sum + disk.size, 0);
       const usedDiskSize = fsSize.reduce((sum, disk) => sum + disk.used, 0);
       const diskUsage = totalDiskSize > 0 ? (usedDiskSize / totalDiskSize) * 100 : 0;
@@ -137,44 +264,28 @@ export class SystemCollector {
         });
       }
 
-      // Collect network stats - consistent approach across platforms
-      const ifaces = (await si.networkInterfaces()).filter(
-        (i) => i.operstate === 'up' && !i.internal && !i.iface.toLowerCase().includes('loopback')
+      // Run custom collectors (bounded by their timeouts)
+      const customMetrics = await this.timed('customMetrics', async () =>
+        this.customMetricsCollector?.collect(timestamp)
       );
 
-      let totalRx = 0;
-      let totalTx = 0;
-
-      for (const iface of ifaces) {
-        try {
-          const statsArr = await si.networkStats(iface.iface);
-          const stat = statsArr[0];
-          if (!stat) continue;
+      // Collect per-container cgroup stats if enabled
+      const containers = await this.timed('containers', () => this.collectContainers(timestamp));
 
-          totalRx += stat.rx_bytes || 0;
-          totalTx += stat.tx_bytes || 0;
-          // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        } catch (e) {
-          /* empty */
-        }
-      }
+      // Collect systemd unit states if enabled
+      const systemdUnits = await this.timed('systemd', () => this.collectSystemdUnits());
 
-      let upload = 0;
-      let download = 0;
+      // Count log pattern matches since the previous collection
+      const logMatches = await this.timed('logWatch', () => this.collectLogMatches());
 
-      if (this.lastNetSnapshot) {
-        const dt = (timestamp - this.lastNetSnapshot.time) / 1000;
-        if (dt > 0) {
-          upload = (totalTx - this.lastNetSnapshot.tx) / dt;
-          download = (totalRx - this.lastNetSnapshot.rx) / dt;
-        }
-      }
+      // Collect per-device disk I/O
+      const diskIo = await this.timed('diskIo', () => this.collectDiskIo(timestamp));
 
-      this.lastNetSnapshot = {
-        rx: totalRx,
-        tx: totalTx,
-        time: timestamp,
-      };
+      // Collect per-interface network stats; totals only count interfaces that are up
+      const networkInterfaces = await this.timed('network', () =>
+        this.networkCollector.collect(timestamp)
+      );
+      const { upload, download } = sumInterfaceRates(networkInterfaces);
 
       this.logger.info(
         `Network speeds (DELTA) - Upload: ${Math.round(upload)} B/s, Download: ${Math.round(download)} B/s`
@@ -185,7 +296,7 @@ export class SystemCollector {
       // For Windows/macOS, used memory is accurate
       const totalMemory = memInfo.total || 0;
       let usedMemory: number;
-      
+
       if (os.platform() === 'linux' && memInfo.available !== undefined) {
         // On Linux, use (total - available) for more accurate usage (excludes cache/buffers)
         usedMemory = totalMemory - (memInfo.available || 0);
@@ -193,12 +304,30 @@ export class SystemCollector {
         // On Windows/macOS, use reported used memory
         usedMemory = memInfo.used || 0;
       }
-      
-      const memoryUsage = totalMemory > 0 ? (usedMemory / totalMemory) * 100 : 0;
+
+      let memoryUsage = totalMemory > 0 ? (usedMemory / totalMemory) * 100 : 0;
+
+      // Inside a memory-limited container, usage is relative to the container limit
+      const containerMemory = await this.collectOwnContainerMemory();
+      if (containerMemory && containerMemory.limit < totalMemory) {
+        memoryUsage = Math.min(100, (containerMemory.usage / containerMemory.limit) * 100);
+      }
 
       // Calculate swap usage percentage
       const swapUsage = memInfo.swaptotal > 0 ? (memInfo.swapused / memInfo.swaptotal) * 100 : 0;
 
+      // Collect top processes if enabled
+      const topProcesses = await this.timed('processes', () => this.collectTopProcesses());
+
+      // Collect CPU details, preferring /proc/stat deltas (with iowait) over systeminformation
+      const cpuStats = await this.timed('cpuStats', () => this.collectCpuStats(timestamp));
+      const cpuDetails = cpuStats ?? this.cpuDetailsFromLoad(currentLoad);
+
+      // Load average is always zero on Windows
+      const [load1, load5, load15] = os.loadavg();
+      const loadAverage: LoadAverage | undefined =
+        os.platform() === 'win32' ? undefined : { load1, load5, load15 };
+
       return {
         cpuUsage: currentLoad.currentLoad || 0,
         cpuFrequency: cpuSpeed.avg || 0,
@@ -209,6 +338,19 @@ export class SystemCollector {
         networkUpload: upload,
         networkDownload: download,
         timestamp: timestamp,
+        topProcesses: topProcesses,
+        cpuBreakdown: cpuDetails.breakdown,
+        cpuCores: cpuDetails.cores,
+        loadAverage: loadAverage,
+        uptime: os.uptime(),
+        interruptsPerSecond: cpuStats?.interruptsPerSecond,
+        contextSwitchesPerSecond: cpuStats?.contextSwitchesPerSecond,
+        networkInterfaces: networkInterfaces,
+        diskIo: diskIo,
+        customMetrics: customMetrics,
+        containers: containers,
+        systemdUnits: systemdUnits,
+        logMatches: logMatches,
       };
     } catch (error) {
       this.logger.error('Failed to collect dynamic system status', error);
@@ -218,6 +360,190 @@ export class SystemCollector {
     }
   }
 
+  /**
+   * Get how long each sub-collector took in the last dynamic status collection
+   * @returns Durations in milliseconds by sub-collector name
+   */
+  getCollectorDurations(): Record<string, number> {
+    return { ...this.durations };
+  }
+
+  /**
+   * Run one sub-collector and record its duration
+   */
+  private async timed<T>(name: string, collect: () => Promise<T>): Promise<T> {
+    const start = performance.now();
+    try {
+      return await collect();
+    } finally {
+      this.durations[name] = Math.round((performance.now() - start) * 10) / 10;
+    }
+  }
+
+  /**
+   * Collect top processes
+   * A failure here is logged and does not fail the whole collection
+   * @returns Top processes, or undefined if disabled or failed
+   */
+  private async collectTopProcesses(): Promise<TopProcesses | undefined> {
+    if (!this.processCollector) {
+      return undefined;
+    }
+
+    try {
+      return await this.processCollector.collect();
+    } catch (error) {
+      this.logger.error('Failed to collect top processes', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Collect CPU statistics from /proc/stat
+   * @returns Statistics, or null if unavailable, failed, or on the first sample
+   */
+  private async collectCpuStats(timestamp: number): Promise<CpuStats | null> {
+    if (!this.cpuStatCollector) {
+      return null;
+    }
+
+    try {
+      return await this.cpuStatCollector.collect(timestamp);
+    } catch (error) {
+      this.logger.error('Failed to read CPU statistics', error);
+      return null;
+    }
+  }
+
+  /**
+   * Collect disk I/O statistics from /proc/diskstats
+   * @returns Statistics, or undefined if unavailable or failed
+   */
+  private async collectDiskIo(timestamp: number): Promise<DiskIoStats[] | undefined> {
+    if (!this.diskIoCollector) {
+      return undefined;
+    }
+
+    try {
+      return await this.diskIoCollector.collect(timestamp);
+    } catch (error) {
+      this.logger.error('Failed to read disk I/O statistics', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Collect per-container statistics from the cgroup filesystem
+   * @returns Statistics, or undefined if disabled, unavailable or failed
+   */
+  private async collectContainers(timestamp: number): Promise<ContainerStats[] | undefined> {
+    if (!this.containerCollector || !this.config?.containerMonitoring?.enabled) {
+      return undefined;
+    }
+
+    try {
+      return await this.containerCollector.collect(timestamp);
+    } catch (error) {
+      this.logger.error('Failed to collect container statistics', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Collect systemd unit states
+   * @returns Unit states, or undefined if disabled, unavailable or failed
+   */
+  private async collectSystemdUnits(): Promise<SystemdUnitStatus[] | undefined> {
+    if (!this.systemdCollector) {
+      return undefined;
+    }
+
+    try {
+      return await this.systemdCollector.collect();
+    } catch (error) {
+      this.logger.error('Failed to collect systemd unit states', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Count log pattern matches
+   * @returns Counts, or undefined if no log files are watched or reading failed
+   */
+  private async collectLogMatches(): Promise<LogMatchCount[] | undefined> {
+    if (!this.logWatchCollector) {
+      return undefined;
+    }
+
+    try {
+      return await this.logWatchCollector.collect();
+    } catch (error) {
+      this.logger.error('Failed to read watched log files', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Detect whether the client runs in a container
+   * @returns Container limits, or undefined if not in a container or detection failed
+   */
+  private async detectContainer(hostTotalMemory: number): Promise<ContainerInfo | undefined> {
+    if (!this.containerCollector) {
+      return undefined;
+    }
+
+    try {
+      return await this.containerCollector.detectSelf(hostTotalMemory);
+    } catch (error) {
+      this.logger.error('Failed to detect container environment', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Read memory usage of the client's own container
+   * @returns Usage and limit, or undefined if not in a memory-limited container
+   */
+  private async collectOwnContainerMemory(): Promise<{ usage: number; limit: number } | undefined> {
+    if (!this.containerCollector) {
+      return undefined;
+    }
+
+    try {
+      return await this.containerCollector.readSelfMemory();
+    } catch (error) {
+      this.logger.error('Failed to read container memory usage', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Build CPU breakdown and per-core usage from systeminformation load data
+   * Used on platforms without /proc/stat; iowait is not available there
+   */
+  private cpuDetailsFromLoad(load: si.Systeminformation.CurrentLoadData): {
+    breakdown: CpuBreakdown;
+    cores: CpuCoreUsage[];
+  } {
+    return {
+      breakdown: {
+        user: load.currentLoadUser || 0,
+        nice: load.currentLoadNice || 0,
+        system: load.currentLoadSystem || 0,
+        idle: load.currentLoadIdle || 0,
+        irq: load.currentLoadIrq || 0,
+        steal: load.currentLoadSteal || 0,
+      },
+      cores: (load.cpus || []).map((cpu, core) => ({
+        core,
+        usage: cpu.load || 0,
+        user: cpu.loadUser || 0,
+        system: cpu.loadSystem || 0,
+        steal: cpu.loadSteal || 0,
+      })),
+    };
+  }
+
   /**
    * Get approximate location from system timezone
    * This is a simplified approach - production systems should use IP geolocation
@@ -235,7 +561,7 @@ export class SystemCollector {
       } else {
         location = timezone;
       }
-      
+
       return location;
     } catch (error) {
       this.logger.error('Failed to getLocation', error);
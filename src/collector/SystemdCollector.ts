@@ -0,0 +1,176 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import { SystemdUnitStatus } from './types';
+import { SystemdMonitoringConfig } from '../config';
+
+const SYSTEMCTL_TIMEOUT = 10000;
+
+/**
+ * Properties requested from `systemctl show`
+ */
+const UNIT_PROPERTIES = [
+  'Id',
+  'Description',
+  'LoadState',
+  'ActiveState',
+  'SubState',
+  'NRestarts',
+  'StateChangeTimestampMonotonic',
+];
+
+/**
+ * Runs systemctl with the given arguments and resolves with its stdout
+ */
+export type SystemctlRunner = (args: string[]) => Promise<string>;
+
+/**
+ * Parse `systemctl show` output
+ * Units are separated by blank lines, each line is 'Key=Value'
+ * @param output Command output
+ * @returns One property map per unit
+ */
+export function parseSystemctlShow(output: string): Array<Record<string, string>> {
+  const units: Array<Record<string, string>> = [];
+  let current: Record<string, string> = {};
+
+  for (const line of output.split('\n')) {
+    const separator = line.indexOf('=');
+    if (line.trim() === '') {
+      if (Object.keys(current).length > 0) {
+        units.push(current);
+        current = {};
+      }
+    } else if (separator > 0) {
+      current[line.slice(0, separator)] = line.slice(separator + 1);
+    }
+  }
+
+  if (Object.keys(current).length > 0) {
+    units.push(current);
+  }
+  return units;
+}
+
+/**
+ * Parse `systemctl list-units --plain --no-legend` output
+ * @returns Unit names (first column)
+ */
+export function parseListUnits(output: string): string[] {
+  return output
+    .split('\n')
+    .map((line) => line.trim().split(/\s+/)[0])
+    .filter((name) => name && name.includes('.'));
+}
+
+/**
+ * Convert `systemctl show` properties into a unit status
+ * @param properties Properties of one unit
+ * @param monotonicNowUsec Current CLOCK_MONOTONIC time in microseconds
+ */
+export function toUnitStatus(
+  properties: Record<string, string>,
+  monotonicNowUsec: number
+): SystemdUnitStatus {
+  const restarts = Number(properties.NRestarts);
+  const changedAt = Number(properties.StateChangeTimestampMonotonic);
+  const activeState = properties.ActiveState || 'unknown';
+
+  return {
+    name: properties.Id || 'unknown',
+    description: properties.Description || undefined,
+    loadState: properties.LoadState || 'unknown',
+    activeState,
+    subState: properties.SubState || 'unknown',
+    active: activeState === 'active' ? 1 : 0,
+    failed: activeState === 'failed' ? 1 : 0,
+    restarts:
+      properties.NRestarts !== undefined && Number.isFinite(restarts) ? restarts : undefined,
+    // Zero means the state never changed since boot
+    sinceStateChange:
+      changedAt > 0 && monotonicNowUsec >= changedAt
+        ? Math.round((monotonicNowUsec - changedAt) / 1e6)
+        : undefined,
+  };
+}
+
+/**
+ * Run systemctl and resolve with its stdout
+ */
+function runSystemctl(args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      'systemctl',
+      args,
+      { timeout: SYSTEMCTL_TIMEOUT, maxBuffer: 1024 * 1024 },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(new Error(`systemctl ${args[0]} failed: ${stderr.trim() || error.message}`));
+        } else {
+          resolve(stdout);
+        }
+      }
+    );
+  });
+}
+
+/**
+ * SystemdCollector class
+ * Reports the state of configured systemd units, or of all failed units when none
+ * are configured (Linux only)
+ */
+export class SystemdCollector {
+  private units: string[];
+
+  constructor(
+    config?: Partial<SystemdMonitoringConfig>,
+    private run: SystemctlRunner = runSystemctl,
+    private systemdRuntimeDir: string = '/run/systemd/system'
+  ) {
+    this.units = config?.units ?? [];
+  }
+
+  /**
+   * Check whether systemd is the running init system
+   */
+  isAvailable(): boolean {
+    return fs.existsSync(this.systemdRuntimeDir);
+  }
+
+  /**
+   * Collect the state of the monitored units
+   * Configured units that do not exist are reported with loadState 'not-found'
+   */
+  async collect(): Promise<SystemdUnitStatus[]> {
+    const units =
+      this.units.length > 0
+        ? this.units
+        : parseListUnits(
+            await this.run([
+              'list-units',
+              '--state=failed',
+              '--all',
+              '--plain',
+              '--no-legend',
+              '--no-pager',
+            ])
+          );
+
+    if (units.length === 0) {
+      return [];
+    }
+
+    // CLOCK_MONOTONIC, the clock behind the *TimestampMonotonic properties
+    const monotonicNowUsec = Number(process.hrtime.bigint() / 1000n);
+    const output = await this.run([
+      'show',
+      `--property=${UNIT_PROPERTIES.join(',')}`,
+      '--no-pager',
+      '--',
+      ...units,
+    ]);
+
+    return parseSystemctlShow(output).map((properties) =>
+      toUnitStatus(properties, monotonicNowUsec)
+    );
+  }
+}
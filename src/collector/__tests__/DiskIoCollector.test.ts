@@ -0,0 +1,135 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DiskIoCollector, computeDiskIo, parseDiskStats } from '../DiskIoCollector';
+
+const FIXTURES = path.join(__dirname, 'fixtures');
+
+function fixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES, name), 'utf-8');
+}
+
+describe('parseDiskStats', () => {
+  it('reads the counters of whole disks', () => {
+    const counters = parseDiskStats(fixture('diskstats-1.txt'));
+
+    expect(counters.get('sda')).toEqual({
+      readsCompleted: 10000,
+      sectorsRead: 800000,
+      msReading: 5000,
+      writesCompleted: 20000,
+      sectorsWritten: 1600000,
+      msWriting: 40000,
+      msDoingIo: 30000,
+    });
+  });
+
+  it('skips partitions, loop and RAM devices', () => {
+    const counters = parseDiskStats(fixture('diskstats-1.txt'));
+
+    expect([...counters.keys()]).toEqual(['sda', 'nvme0n1', 'dm-0', 'mmcblk0']);
+  });
+
+  it('skips blank and short lines', () => {
+    const counters = parseDiskStats('\n   8 0 sda 1 2 3\n\n');
+
+    expect(counters.size).toBe(0);
+  });
+});
+
+describe('computeDiskIo', () => {
+  const before = parseDiskStats(fixture('diskstats-1.txt'));
+  const after = parseDiskStats(fixture('diskstats-2.txt'));
+
+  it('computes rates from the counter deltas', () => {
+    const stats = computeDiskIo('sda', before.get('sda')!, after.get('sda')!, 10);
+
+    expect(stats).toEqual({
+      device: 'sda',
+      readBytesPerSec: (2000 * 512) / 10,
+      writeBytesPerSec: (8000 * 512) / 10,
+      readIops: 10,
+      writeIops: 40,
+      utilization: 25,
+      awaitMs: 2,
+    });
+  });
+
+  it('reports zero for counters that went backwards', () => {
+    const stats = computeDiskIo('nvme0n1', before.get('nvme0n1')!, after.get('nvme0n1')!, 10);
+
+    expect(stats).toEqual({
+      device: 'nvme0n1',
+      readBytesPerSec: 0,
+      writeBytesPerSec: 0,
+      readIops: 0,
+      writeIops: 0,
+      utilization: 0,
+      awaitMs: 0,
+    });
+  });
+
+  it('reports zero without elapsed time', () => {
+    const stats = computeDiskIo('sda', before.get('sda')!, after.get('sda')!, 0);
+
+    expect(stats.readBytesPerSec).toBe(0);
+    expect(stats.utilization).toBe(0);
+  });
+
+  it('caps utilisation at 100%', () => {
+    const stats = computeDiskIo('sda', before.get('sda')!, after.get('sda')!, 1);
+
+    expect(stats.utilization).toBe(100);
+  });
+});
+
+describe('DiskIoCollector', () => {
+  let dir: string;
+  let statsPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'diskstats-'));
+    statsPath = path.join(dir, 'diskstats');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('is unavailable without the diskstats file', () => {
+    expect(new DiskIoCollector(statsPath).isAvailable()).toBe(false);
+  });
+
+  it('reports zero rates first, then rates between consecutive reads', async () => {
+    const collector = new DiskIoCollector(statsPath);
+    fs.copyFileSync(path.join(FIXTURES, 'diskstats-1.txt'), statsPath);
+
+    const first = await collector.collect(1_000_000);
+    expect(first.map(({ device }) => device)).toEqual(['sda', 'nvme0n1', 'dm-0', 'mmcblk0']);
+    expect(first.every((stats) => stats.readBytesPerSec === 0 && stats.utilization === 0)).toBe(
+      true
+    );
+
+    fs.copyFileSync(path.join(FIXTURES, 'diskstats-2.txt'), statsPath);
+    const second = await collector.collect(1_010_000);
+    const byDevice = new Map(second.map((stats) => [stats.device, stats]));
+
+    expect(byDevice.get('sda')).toMatchObject({ readIops: 10, writeIops: 40, utilization: 25 });
+    expect(byDevice.get('nvme0n1')).toMatchObject({ readIops: 0, writeIops: 0, utilization: 0 });
+    expect(byDevice.get('dm-0')).toMatchObject({ readIops: 0, writeBytesPerSec: 0 });
+  });
+
+  it('reports a device that appears between reads with zero rates', async () => {
+    const collector = new DiskIoCollector(statsPath);
+    fs.writeFileSync(statsPath, '');
+    await collector.collect(1_000_000);
+
+    fs.copyFileSync(path.join(FIXTURES, 'diskstats-2.txt'), statsPath);
+    const stats = await collector.collect(1_010_000);
+
+    expect(stats.find(({ device }) => device === 'sda')).toMatchObject({
+      readBytesPerSec: 0,
+      utilization: 0,
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import {
+  SystemctlRunner,
+  SystemdCollector,
+  parseListUnits,
+  parseSystemctlShow,
+  toUnitStatus,
+} from '../SystemdCollector';
+
+/**
+ * `systemctl show` output for a running service, a failed service, a unit that does not
+ * exist and a timer (no NRestarts)
+ */
+const SHOW_OUTPUT = `Id=nginx.service
+Description=A high performance web server and a reverse proxy server
+LoadState=loaded
+ActiveState=active
+SubState=running
+NRestarts=2
+StateChangeTimestampMonotonic=5000000
+
+Id=backup.service
+Description=Nightly backup
+LoadState=loaded
+ActiveState=failed
+SubState=failed
+NRestarts=0
+StateChangeTimestampMonotonic=9000000
+
+Id=missing.service
+Description=missing.service
+LoadState=not-found
+ActiveState=inactive
+SubState=dead
+NRestarts=0
+StateChangeTimestampMonotonic=0
+
+Id=logrotate.timer
+Description=Daily rotation of log files
+LoadState=loaded
+ActiveState=active
+SubState=waiting
+StateChangeTimestampMonotonic=7500000
+`;
+
+/**
+ * `systemctl list-units --state=failed --all --plain --no-legend` output
+ */
+const LIST_UNITS_OUTPUT = `backup.service      loaded failed failed Nightly backup
+docker-prune.timer  loaded failed failed Prune unused images
+
+`;
+
+describe('parseSystemctlShow', () => {
+  it('splits units at blank lines', () => {
+    const units = parseSystemctlShow(SHOW_OUTPUT);
+
+    expect(units.map((unit) => unit.Id)).toEqual([
+      'nginx.service',
+      'backup.service',
+      'missing.service',
+      'logrotate.timer',
+    ]);
+    expect(units[0]).toMatchObject({ LoadState: 'loaded', NRestarts: '2' });
+    expect(units[3].NRestarts).toBeUndefined();
+  });
+
+  it('keeps equals signs in values and ignores lines without a key', () => {
+    const [unit] = parseSystemctlShow('Id=a.service\nDescription=x=y\ngarbage\n=value\n');
+
+    expect(unit).toEqual({ Id: 'a.service', Description: 'x=y' });
+  });
+
+  it('returns nothing for empty output', () => {
+    expect(parseSystemctlShow('\n\n')).toEqual([]);
+  });
+});
+
+describe('parseListUnits', () => {
+  it('returns the unit names of the first column', () => {
+    expect(parseListUnits(LIST_UNITS_OUTPUT)).toEqual(['backup.service', 'docker-prune.timer']);
+  });
+
+  it('returns nothing when no unit matches', () => {
+    expect(parseListUnits('')).toEqual([]);
+    expect(parseListUnits('0 loaded units listed.\n')).toEqual([]);
+  });
+});
+
+describe('toUnitStatus', () => {
+  const [running, failed, missing, timer] = parseSystemctlShow(SHOW_OUTPUT);
+  const now = 10_000_000; // 10s after boot, in microseconds
+
+  it('reports a running unit', () => {
+    expect(toUnitStatus(running, now)).toEqual({
+      name: 'nginx.service',
+      description: 'A high performance web server and a reverse proxy server',
+      loadState: 'loaded',
+      activeState: 'active',
+      subState: 'running',
+      active: 1,
+      failed: 0,
+      restarts: 2,
+      sinceStateChange: 5,
+    });
+  });
+
+  it('reports a failed unit', () => {
+    expect(toUnitStatus(failed, now)).toMatchObject({
+      activeState: 'failed',
+      active: 0,
+      failed: 1,
+      restarts: 0,
+      sinceStateChange: 1,
+    });
+  });
+
+  it('reports a missing unit as not-found without a state change time', () => {
+    const status = toUnitStatus(missing, now);
+
+    expect(status).toMatchObject({ loadState: 'not-found', active: 0, failed: 0 });
+    expect(status.sinceStateChange).toBeUndefined();
+  });
+
+  it('leaves restarts out for units without NRestarts', () => {
+    expect(toUnitStatus(timer, now).restarts).toBeUndefined();
+  });
+
+  it('fills in unknown for missing properties', () => {
+    expect(toUnitStatus({}, now)).toEqual({
+      name: 'unknown',
+      description: undefined,
+      loadState: 'unknown',
+      activeState: 'unknown',
+      subState: 'unknown',
+      active: 0,
+      failed: 0,
+      restarts: undefined,
+      sinceStateChange: undefined,
+    });
+  });
+});
+
+describe('SystemdCollector', () => {
+  it('shows the configured units', async () => {
+    const run = jest.fn<Promise<string>, [string[]]>().mockResolvedValue(SHOW_OUTPUT);
+    const collector = new SystemdCollector({ units: ['nginx.service', 'missing.service'] }, run);
+
+    const units = await collector.collect();
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(run.mock.calls[0][0]).toEqual(
+      expect.arrayContaining(['show', '--', 'nginx.service', 'missing.service'])
+    );
+    expect(units.map(({ name, loadState }) => [name, loadState])).toEqual([
+      ['nginx.service', 'loaded'],
+      ['backup.service', 'loaded'],
+      ['missing.service', 'not-found'],
+      ['logrotate.timer', 'loaded'],
+    ]);
+  });
+
+  it('shows the failed units when none are configured', async () => {
+    const run: SystemctlRunner = jest.fn(async (args: string[]) =>
+      args[0] === 'list-units' ? LIST_UNITS_OUTPUT : SHOW_OUTPUT
+    );
+    const collector = new SystemdCollector({}, run);
+
+    await collector.collect();
+
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(run).toHaveBeenLastCalledWith(
+      expect.arrayContaining(['show', '--', 'backup.service', 'docker-prune.timer'])
+    );
+  });
+
+  it('does not run show when no unit has failed', async () => {
+    const run = jest.fn<Promise<string>, [string[]]>().mockResolvedValue('');
+    const collector = new SystemdCollector(undefined, run);
+
+    expect(await collector.collect()).toEqual([]);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes systemctl failures on', async () => {
+    const run = jest
+      .fn<Promise<string>, [string[]]>()
+      .mockRejectedValue(new Error('systemctl show failed: Failed to connect to bus'));
+    const collector = new SystemdCollector({ units: ['nginx.service'] }, run);
+
+    await expect(collector.collect()).rejects.toThrow('Failed to connect to bus');
+  });
+
+  it('is unavailable without the systemd runtime directory', () => {
+    expect(new SystemdCollector({}, jest.fn(), '/nonexistent/systemd').isAvailable()).toBe(false);
+  });
+});
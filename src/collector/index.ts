@@ -1,2 +1,50 @@
-export { SystemCollector } from './SystemCollector';
-export { StaticSystemInfo, DynamicSystemStatus } from './types';
+export { SystemCollector, SystemCollectorOptions, CollectorConfig } from './SystemCollector';
+export { ProcessCollector } from './ProcessCollector';
+export { CpuStatCollector, parseProcStat, computeCpuStats } from './CpuStatCollector';
+export { NetworkCollector, parseProcNetDev, sumInterfaceRates } from './NetworkCollector';
+export { DiskIoCollector, parseDiskStats, computeDiskIo } from './DiskIoCollector';
+export {
+  CustomMetricsCollector,
+  parseNumberOutput,
+  parseJsonOutput,
+  parseNagiosOutput,
+} from './CustomMetricsCollector';
+export {
+  ContainerCollector,
+  parseFlatKeyed,
+  parseLimit,
+  parseCpuQuota,
+  parseIoStat,
+  parseBlkioServiceBytes,
+  parseProcCgroup,
+} from './ContainerCollector';
+export {
+  SystemdCollector,
+  SystemctlRunner,
+  parseSystemctlShow,
+  parseListUnits,
+  toUnitStatus,
+} from './SystemdCollector';
+export { LogWatchCollector, sanitizeLine } from './LogWatchCollector';
+export { MetricSampler, summarize } from './MetricSampler';
+export { diffStaticInfo, formatBinaryBytes, formatDecimalBytes } from './staticInfoDiff';
+export {
+  StaticSystemInfo,
+  DynamicSystemStatus,
+  ProcessInfo,
+  TopProcesses,
+  CpuBreakdown,
+  CpuCoreUsage,
+  LoadAverage,
+  NetworkInterfaceStats,
+  DiskIoStats,
+  CustomMetric,
+  NagiosState,
+  ContainerInfo,
+  ContainerStats,
+  SystemdUnitStatus,
+  LogMatchCount,
+  MetricSummary,
+  AggregatedMetrics,
+  StaticInfoChange,
+} from './types';
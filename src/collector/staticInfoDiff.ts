@@ -0,0 +1,115 @@
+import { DiskInfo, StaticInfoChange, StaticSystemInfo } from './types';
+
+/**
+ * Format a byte count with binary units, e.g. 17179869184 → '16 GiB'
+ */
+export function formatBinaryBytes(bytes: number): string {
+  return formatBytes(bytes, 1024, ['B', 'KiB', 'MiB', 'GiB', 'TiB', 'PiB']);
+}
+
+/**
+ * Format a byte count with decimal units as used for disk sizes, e.g. 2000398934016 → '2 TB'
+ */
+export function formatDecimalBytes(bytes: number): string {
+  return formatBytes(bytes, 1000, ['B', 'KB', 'MB', 'GB', 'TB', 'PB']);
+}
+
+function formatBytes(bytes: number, base: number, units: string[]): string {
+  let value = bytes;
+  let unit = 0;
+  while (Math.abs(value) >= base && unit < units.length - 1) {
+    value /= base;
+    unit++;
+  }
+  return `${Number(value.toFixed(value < 10 && unit > 0 ? 1 : 0))} ${units[unit]}`;
+}
+
+/**
+ * Describe a disk, e.g. '2 TB NVMe'
+ */
+function describeDisk(disk: DiskInfo): string {
+  return `${formatDecimalBytes(disk.size)} ${disk.type}`;
+}
+
+/**
+ * Compare two static info snapshots
+ * @param previous Snapshot currently reported
+ * @param next Newly collected snapshot
+ * @returns One change per differing field and per added, removed or changed disk
+ */
+export function diffStaticInfo(
+  previous: StaticSystemInfo,
+  next: StaticSystemInfo
+): StaticInfoChange[] {
+  const changes: StaticInfoChange[] = [];
+
+  const compare = <T>(field: string, before: T, after: T, format: (value: T) => string) => {
+    if (JSON.stringify(before) === JSON.stringify(after)) {
+      return;
+    }
+    changes.push({
+      field,
+      type: 'changed',
+      description: `${field} ${format(before)}→${format(after)}`,
+      previous: before,
+      current: after,
+    });
+  };
+
+  const text = (value: unknown) => String(value);
+  compare('cpuModel', previous.cpuModel, next.cpuModel, text);
+  compare('cpuCores', previous.cpuCores, next.cpuCores, text);
+  compare('cpuArch', previous.cpuArch, next.cpuArch, text);
+  compare('systemVersion', previous.systemVersion, next.systemVersion, text);
+  compare('systemModel', previous.systemModel, next.systemModel, text);
+  compare('totalMemory', previous.totalMemory, next.totalMemory, formatBinaryBytes);
+  compare('totalSwap', previous.totalSwap, next.totalSwap, formatBinaryBytes);
+  compare('totalDisk', previous.totalDisk, next.totalDisk, formatDecimalBytes);
+  compare('location', previous.location, next.location, text);
+
+  // Disks are matched by device name
+  const before = new Map(previous.disks.map((disk) => [disk.device, disk]));
+  const after = new Map(next.disks.map((disk) => [disk.device, disk]));
+  for (const [device, disk] of after) {
+    const old = before.get(device);
+    if (!old) {
+      changes.push({
+        field: 'disks',
+        type: 'added',
+        description: `disk ${device} added, ${describeDisk(disk)}`,
+        current: disk,
+      });
+    } else if (JSON.stringify(old) !== JSON.stringify(disk)) {
+      changes.push({
+        field: 'disks',
+        type: 'changed',
+        description: `disk ${device} ${describeDisk(old)}→${describeDisk(disk)}`,
+        previous: old,
+        current: disk,
+      });
+    }
+  }
+  for (const [device, disk] of before) {
+    if (!after.has(device)) {
+      changes.push({
+        field: 'disks',
+        type: 'removed',
+        description: `disk ${device} removed, was ${describeDisk(disk)}`,
+        previous: disk,
+      });
+    }
+  }
+
+  // Container limits, where absent means unlimited
+  for (const key of ['memoryLimit', 'cpuLimit', 'pidsLimit'] as const) {
+    const format = key === 'memoryLimit' ? formatBinaryBytes : String;
+    compare(
+      `container.${key}`,
+      previous.container?.[key] ?? null,
+      next.container?.[key] ?? null,
+      (value) => (value === null ? 'unlimited' : format(value))
+    );
+  }
+
+  return changes;
+}
@@ -24,6 +24,32 @@ export interface StaticSystemInfo {
   totalDisk: number;            // Total disk capacity in bytes (sum of all disks)
   disks: DiskInfo[];            // Array of disk information
   location: string;             // Client geographic location (country/city)
+  container?: ContainerInfo;    // Set when the client itself runs in a container
+}
+
+/**
+ * Own container information interface
+ * Limits of the container the client runs in; totalMemory reports the memory limit
+ */
+export interface ContainerInfo {
+  runtime?: string;             // Container runtime (docker, podman, kubernetes, ...)
+  id?: string;                  // Container ID (if it can be determined)
+  memoryLimit?: number;         // Memory limit in bytes (absent when unlimited)
+  cpuLimit?: number;            // CPU limit in cores (absent when unlimited)
+  pidsLimit?: number;           // Maximum number of processes (absent when unlimited)
+  hostTotalMemory: number;      // Host memory in bytes
+}
+
+/**
+ * Static info change interface
+ * One difference between two static info snapshots
+ */
+export interface StaticInfoChange {
+  field: string;               // Changed field (e.g. 'totalMemory', 'disks', 'container.cpuLimit')
+  type: 'added' | 'removed' | 'changed'; // Kind of change
+  description: string;         // Human-readable summary (e.g. 'disk /dev/sdb added, 2 TB NVMe')
+  previous?: unknown;          // Previous value (absent when added)
+  current?: unknown;           // New value (absent when removed)
 }
 
 /**
@@ -39,6 +65,193 @@ export interface DiskUsage {
   mountpoint?: string;         // Mount point (for Unix systems)
 }
 
+/**
+ * CPU time breakdown interface
+ * Share of CPU time per state over the last collection interval (0-100 each)
+ */
+export interface CpuBreakdown {
+  user: number;                // User space
+  nice: number;                // Niced user space
+  system: number;              // Kernel space
+  idle: number;                // Idle
+  iowait?: number;             // Waiting for I/O (Linux only)
+  irq: number;                 // Hardware and software interrupts
+  steal: number;               // Stolen by the hypervisor (VMs)
+}
+
+/**
+ * Per-core CPU usage interface
+ */
+export interface CpuCoreUsage {
+  core: number;                // Core index
+  usage: number;               // Busy percentage (0-100)
+  user: number;                // User space percentage
+  system: number;              // Kernel space percentage
+  iowait?: number;             // I/O wait percentage (Linux only)
+  steal: number;               // Steal percentage
+}
+
+/**
+ * Load average interface
+ * Not available on Windows
+ */
+export interface LoadAverage {
+  load1: number;               // 1 minute load average
+  load5: number;               // 5 minute load average
+  load15: number;              // 15 minute load average
+}
+
+/**
+ * Process information interface
+ * Describes a single process in a top-N resource consumer list
+ */
+export interface ProcessInfo {
+  pid: number;                 // Process ID
+  name: string;                // Process name
+  command?: string;            // Command line (omitted or truncated per config)
+  user: string;                // Owning user
+  cpuPercent: number;          // CPU usage percentage
+  memoryRss: number;           // Resident set size in bytes
+  state: string;               // Process state (running, sleeping, etc.)
+}
+
+/**
+ * Top processes interface
+ * Contains one list per configured sort key
+ */
+export interface TopProcesses {
+  byCpu?: ProcessInfo[];       // Processes sorted by CPU usage, descending
+  byMemory?: ProcessInfo[];    // Processes sorted by RSS, descending
+}
+
+/**
+ * Network interface statistics interface
+ * Byte, packet, error and drop counters are cumulative since the interface came up
+ */
+export interface NetworkInterfaceStats {
+  iface: string;               // Interface name (e.g., 'eth0', 'docker0')
+  operstate: string;           // Operational state (up, down, unknown)
+  speed?: number;              // Link speed in Mbit/s (if known)
+  rxRate: number;              // Receive rate in bytes/second
+  txRate: number;              // Transmit rate in bytes/second
+  rxBytes: number;             // Bytes received
+  txBytes: number;             // Bytes transmitted
+  rxPackets?: number;          // Packets received (Linux only)
+  txPackets?: number;          // Packets transmitted (Linux only)
+  rxErrors: number;            // Receive errors
+  txErrors: number;            // Transmit errors
+  rxDropped: number;           // Dropped incoming packets
+  txDropped: number;           // Dropped outgoing packets
+}
+
+/**
+ * Disk I/O statistics interface
+ * Activity of a single block device over the last collection interval
+ */
+export interface DiskIoStats {
+  device: string;              // Block device name (e.g., 'sda', 'nvme0n1')
+  readBytesPerSec: number;     // Read throughput in bytes/second
+  writeBytesPerSec: number;    // Write throughput in bytes/second
+  readIops: number;            // Completed reads per second
+  writeIops: number;           // Completed writes per second
+  utilization: number;         // Share of time the device was busy (0-100)
+  awaitMs: number;             // Average time per completed I/O in milliseconds
+}
+
+/**
+ * Nagios plugin state, derived from the exit code (0-3)
+ */
+export type NagiosState = 'OK' | 'WARNING' | 'CRITICAL' | 'UNKNOWN';
+
+/**
+ * Custom metric interface
+ * Result of running one user-defined collector command
+ */
+export interface CustomMetric {
+  name: string;                // Metric name from config
+  status: 'ok' | 'error' | 'timeout'; // Whether the command produced a usable result
+  value?: number;              // Value ('number' format)
+  values?: Record<string, number | string | boolean>; // Values ('json' format, nagios perfdata)
+  state?: NagiosState;         // Plugin state ('nagios' format)
+  message?: string;            // Plugin status text ('nagios' format)
+  exitCode?: number;           // Command exit code
+  error?: string;              // Failure reason
+  collectedAt: number;         // When the command ran (Unix milliseconds)
+  durationMs: number;          // How long the command took
+}
+
+/**
+ * Container statistics interface
+ * Read from the container's cgroup; counters are cumulative since the container started
+ */
+export interface ContainerStats {
+  id: string;                  // Container ID
+  name: string;                // Name from runtime metadata, short ID otherwise
+  runtime?: string;            // Container runtime (docker, containerd, cri-o, podman)
+  cpuUsage?: number;           // CPU usage percentage over the last interval (100 = one core)
+  cpuLimit?: number;           // CPU limit in cores (absent when unlimited)
+  memoryUsage?: number;        // Memory usage in bytes, excluding inactive page cache
+  memoryLimit?: number;        // Memory limit in bytes (absent when unlimited)
+  oomKills?: number;           // Processes killed by the OOM killer
+  blockReadBytes?: number;     // Bytes read from block devices
+  blockWriteBytes?: number;    // Bytes written to block devices
+  blockReadRate?: number;      // Block read throughput in bytes/second
+  blockWriteRate?: number;     // Block write throughput in bytes/second
+  pids?: number;               // Number of processes
+  pidsLimit?: number;          // Maximum number of processes (absent when unlimited)
+}
+
+/**
+ * systemd unit status interface
+ * active and failed are numeric so alert rules can compare them
+ */
+export interface SystemdUnitStatus {
+  name: string;                // Unit name (e.g., 'nginx.service')
+  description?: string;        // Unit description
+  loadState: string;           // Load state (loaded, not-found, masked, ...)
+  activeState: string;         // Active state (active, inactive, failed, activating, ...)
+  subState: string;            // Type-specific state (running, exited, dead, ...)
+  active: number;              // 1 when the unit is active, 0 otherwise
+  failed: number;              // 1 when the unit has failed, 0 otherwise
+  restarts?: number;           // Automatic restarts since the unit was loaded (services only)
+  sinceStateChange?: number;   // Seconds since the active state last changed
+}
+
+/**
+ * Log pattern count interface
+ * Lines matching one log watch pattern since the previous collection
+ */
+export interface LogMatchCount {
+  name: string;                // Pattern name
+  file: string;                // Log file path
+  count: number;               // Matching lines since the previous collection
+  lines?: string[];            // Last matching lines, redacted and length-capped (if enabled)
+  error?: string;              // Why the file could not be read
+}
+
+/**
+ * Metric summary interface
+ * Statistics of the samples of one metric in a report window
+ */
+export interface MetricSummary {
+  min: number;                 // Lowest sample
+  max: number;                 // Highest sample
+  avg: number;                 // Mean of all samples
+  p95: number;                 // 95th percentile (nearest rank)
+  count: number;               // Number of samples
+}
+
+/**
+ * Aggregated metrics interface
+ * Summaries of the samples taken since the previous report
+ */
+export interface AggregatedMetrics {
+  windowStart: number;         // First sample in the window (Unix milliseconds)
+  windowEnd: number;           // Last sample in the window (Unix milliseconds)
+  sampleInterval: number;      // Sampling interval in milliseconds
+  metrics: Record<string, MetricSummary>; // Summary per sampled metric
+}
+
 /**
  * Dynamic system status interface
  * Contains real-time system metrics that change frequently
@@ -50,7 +263,21 @@ export interface DynamicSystemStatus {
   swapUsage: number;            // Swap usage percentage (0-100)
   diskUsage: number;            // Overall disk usage percentage (0-100)
   diskUsages: DiskUsage[];      // Array of individual disk usage information
-  networkUpload: number;        // Network upload speed in bytes/second
-  networkDownload: number;      // Network download speed in bytes/second
+  networkUpload: number;        // Network upload speed in bytes/second (sum of up interfaces)
+  networkDownload: number;      // Network download speed in bytes/second (sum of up interfaces)
   timestamp: number;            // Collection timestamp (Unix milliseconds)
+  topProcesses?: TopProcesses;  // Top resource consumers (if enabled)
+  cpuBreakdown?: CpuBreakdown;  // CPU time breakdown by state
+  cpuCores?: CpuCoreUsage[];    // Per-core CPU usage
+  loadAverage?: LoadAverage;    // 1/5/15 minute load averages
+  uptime?: number;              // System uptime in seconds
+  interruptsPerSecond?: number; // Interrupt rate (Linux only)
+  contextSwitchesPerSecond?: number; // Context switch rate (Linux only)
+  networkInterfaces?: NetworkInterfaceStats[]; // Per-interface network statistics
+  diskIo?: DiskIoStats[];       // Per-device disk I/O statistics (Linux only)
+  customMetrics?: CustomMetric[]; // Results of user-defined collectors
+  containers?: ContainerStats[]; // Per-container statistics (if enabled, Linux only)
+  systemdUnits?: SystemdUnitStatus[]; // systemd unit states (if enabled, Linux only)
+  logMatches?: LogMatchCount[]; // Log pattern counts (if log files are watched)
+  aggregated?: AggregatedMetrics; // Summaries of samples since the previous report (if sampling)
 }
@@ -1,17 +1,70 @@
 import { ClientConfig } from './types';
+import { ConfigValidationError } from './errors';
+import { CONFIG_SCHEMA, FieldSpec, checkObject } from './schema';
+import { readEnvConfig, mergeLayers } from './sources';
+import { filterRemoteOverrides } from './remote';
 import * as os from 'os';
 import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * ConfigManager options
+ */
+export interface ConfigManagerOptions {
+  env?: NodeJS.ProcessEnv; // Environment to read STATUS_CLIENT_* variables from (default: process.env)
+  cliOverrides?: Record<string, unknown>; // Values from command-line flags
+  strict?: boolean; // Reject unknown keys, wrong types and invalid URLs instead of falling back
+  quiet?: boolean; // Suppress informational messages (warnings and errors are still printed)
+}
 
 /**
  * ConfigManager class
  * Manages client configuration loading, validation, and default values
+ * Sources are layered with increasing precedence: defaults < config file <
+ * remote overrides < STATUS_CLIENT_* environment variables < command-line flags
  */
 export class ConfigManager {
   private configPath: string;
+  private env: NodeJS.ProcessEnv;
+  private cliOverrides: Record<string, unknown>;
+  private strict: boolean;
+  private quiet: boolean;
+  private remoteOverrides: Record<string, unknown> = {};
+  private fileFound = true;
 
-  constructor(configPath: string = 'config.json') {
+  constructor(configPath: string = 'config.json', options: ConfigManagerOptions = {}) {
     this.configPath = configPath;
+    this.env = options.env ?? process.env;
+    this.cliOverrides = options.cliOverrides ?? {};
+    this.strict = options.strict ?? false;
+    this.quiet = options.quiet ?? false;
+  }
+
+  /**
+   * Print an informational message unless quiet
+   */
+  private info(message: string): void {
+    if (!this.quiet) {
+      console.log(message);
+    }
+  }
+
+  /**
+   * Set config overrides received from the server
+   * Applied by the next load or reload; keys the local remoteControl settings do not
+   * allow are ignored
+   */
+  setRemoteOverrides(overrides: Record<string, unknown>): void {
+    this.remoteOverrides = overrides;
+  }
+
+  /**
+   * Get the path of the config file
+   */
+  getConfigPath(): string {
+    return this.configPath;
   }
+
   /**
    * Get default configuration values
    * Provide default values for missing configuration
@@ -22,55 +75,266 @@ export class ConfigManager {
       clientTags: [], // Empty tags by default
       clientPurpose: '', // Empty purpose by default
       serverUrl: 'http://localhost:7788', // Default server URL
+      destinations: [], // Default: report to serverUrl only
       reportInterval: 60000, // Default: 60 seconds
       minReportInterval: 10000, // Minimum: 10 seconds
       maxRetries: 3, // Default: 3 retry attempts
+      retry: {
+        initialDelay: '5s',
+        maxDelay: '5m',
+        failureThreshold: 3, // Default: pause after 3 consecutive failures
+      },
       cacheSize: 100, // Default: cache up to 100 reports
+      cacheMaxBytes: 50 * 1024 * 1024, // Default: 50 MB on disk
+      cacheMaxAge: '7d', // Default: drop cached entries after a week
+      tls: {
+        pinnedPublicKeys: [], // Default: any certificate the trusted CAs accept
+        rejectUnauthorized: true,
+      },
+      batchSize: 20, // Default: up to 20 cached reports per batch
+      batchMaxBytes: 512 * 1024, // Default: 512 KB per batch
+      batchCompression: true, // Default: gzip batch bodies
+      processMonitoring: {
+        enabled: false, // Default: no process lists
+        topN: 5,
+        sortBy: ['cpu', 'memory'],
+        includeCommandLine: true,
+        maxCommandLength: 256,
+      },
+      alertRules: [], // Default: no local alert rules
+      pushEnabled: true, // Default: push reports to the server
+      metricsExporter: {
+        enabled: false, // Default: no local metrics endpoint
+        host: '127.0.0.1',
+        port: 9788,
+      },
+      healthEndpoint: {
+        enabled: false, // Default: no local health endpoint
+        host: '127.0.0.1',
+        port: 9789,
+      },
+      mqttTopic: 'status/{clientId}/{type}', // Default: status/<id>/report, status/<id>/alert
+      customCollectors: [], // Default: no custom metrics
+      probes: [], // Default: no health probes
+      containerMonitoring: {
+        enabled: false, // Default: no per-container stats
+        cgroupRoot: '/sys/fs/cgroup',
+        dockerDataRoot: '/var/lib/docker',
+      },
+      systemdMonitoring: {
+        enabled: false, // Default: no unit states
+        units: [], // Default: all failed units
+      },
+      logWatch: [], // Default: no log files
+      sampling: {
+        enabled: false, // Default: only instantaneous values
+        interval: '5s',
+        metrics: ['cpuUsage', 'memoryUsage', 'networkUpload', 'networkDownload'],
+        maxSamples: 720, // Default: one hour at 5s
+      },
+      sendStaticInfo: 'onChange', // Default: only when the server does not have it yet
+      staticInfoRefreshInterval: '1h', // Default: re-collect static info hourly
+      remoteControl: {
+        enabled: false, // Default: configuration is local only
+        pollInterval: 0, // Default: read control messages from report responses only
+        allowedKeys: [
+          'reportInterval',
+          'clientTags',
+          'clientPurpose',
+          'priority',
+          'processMonitoring',
+          'containerMonitoring',
+          'systemdMonitoring',
+          'sampling',
+        ],
+        allowedCommands: ['collectStaticInfo', 'flushCache', 'sendDiagnostics'],
+      },
     };
   }
 
   /**
-   * Load configuration from file
-   * Read configuration from config file
+   * Load configuration from all sources
    * Use default values if config file doesn't exist or fields are missing
+   * In strict mode any problem throws; otherwise problems are logged, and an
+   * unusable config file falls back to defaults (environment and flags still apply)
+   * @throws ConfigValidationError in strict mode
    */
   loadConfig(): ClientConfig {
     try {
-      // Check if config file exists
-      if (!fs.existsSync(this.configPath)) {
-        console.log(`Config file not found at ${this.configPath}, using default configuration`);
+      const config = this.buildConfig(true);
+      this.info('Configuration loaded successfully');
+      return config;
+    } catch (error) {
+      if (this.strict) {
+        throw error;
+      }
+      if (error instanceof ConfigValidationError) {
+        console.error(`Error loading configuration: ${error.message}`);
+      } else {
+        console.error('Error loading configuration:', error);
+      }
+      this.info('Using default configuration');
+      try {
+        return this.buildConfig(true, false);
+      } catch {
         return this.getDefaultConfig();
       }
+    }
+  }
 
-      // Read and parse config file
-      const configContent = fs.readFileSync(this.configPath, 'utf-8');
-      const parsedConfig = JSON.parse(configContent) as Partial<ClientConfig>;
+  /**
+   * Reload configuration from all sources
+   * Unlike loadConfig(), this never falls back to defaults: a missing, unparsable
+   * or invalid file throws so the caller can keep its current configuration.
+   * A file that was already missing at the first load may stay missing.
+   * @throws Error describing why the file was rejected
+   */
+  reloadConfig(): ClientConfig {
+    return this.buildConfig(!this.fileFound);
+  }
 
-      // Validate and merge with defaults
-      const validatedConfig = this.validateConfig(parsedConfig);
+  /**
+   * Merge all layers and validate the result
+   * @param allowMissingFile Treat a missing config file as empty
+   * @param useFile Read the config file at all
+   * @throws ConfigValidationError if the file cannot be parsed, or on any problem in strict mode
+   */
+  private buildConfig(allowMissingFile: boolean, useFile: boolean = true): ClientConfig {
+    const problems: string[] = [];
+    let fileConfig: Record<string, unknown> = {};
 
-      console.log('Configuration loaded successfully');
-      return validatedConfig;
+    if (useFile) {
+      const exists = fs.existsSync(this.configPath);
+      if (allowMissingFile) {
+        this.fileFound = exists;
+      }
+      if (exists) {
+        fileConfig = this.readConfigFile();
+        problems.push(
+          ...checkObject(fileConfig).map((problem) => `${this.configPath}: ${problem}`)
+        );
+      } else if (allowMissingFile) {
+        this.info(`Config file not found at ${this.configPath}, using default configuration`);
+      } else {
+        throw new ConfigValidationError([`${this.configPath}: file not found`]);
+      }
+    }
+
+    const envConfig = readEnvConfig(this.env);
+    problems.push(...envConfig.problems.map((problem) => `environment: ${problem}`));
+    problems.push(
+      ...checkObject(envConfig.config).map((problem) => `environment: ${problem}`),
+      ...checkObject(this.cliOverrides).map((problem) => `command line: ${problem}`)
+    );
+
+    if (problems.length > 0) {
+      if (this.strict) {
+        throw new ConfigValidationError(problems);
+      }
+      for (const problem of problems) {
+        console.warn(`Configuration problem: ${problem}`);
+      }
+    }
+
+    // Remote control settings themselves are local only
+    const local = mergeLayers(fileConfig, envConfig.config, this.cliOverrides);
+    const remote = filterRemoteOverrides(this.remoteOverrides, {
+      ...this.getDefaultConfig().remoteControl,
+      ...(local as Partial<ClientConfig>).remoteControl,
+    }).accepted;
+
+    const merged = mergeLayers(fileConfig, remote, envConfig.config, this.cliOverrides);
+    return this.validateConfig(merged as Partial<ClientConfig>);
+  }
+
+  /**
+   * Read and parse the config file
+   * @throws ConfigValidationError if the file is not a JSON object
+   */
+  private readConfigFile(): Record<string, unknown> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(fs.readFileSync(this.configPath, 'utf-8'));
     } catch (error) {
-      console.error('Error loading configuration:', error);
-      console.log('Using default configuration');
-      return this.getDefaultConfig();
+      throw new ConfigValidationError([
+        `${this.configPath}: ${error instanceof Error ? error.message : String(error)}`,
+      ]);
+    }
+
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new ConfigValidationError([`${this.configPath}: expected a JSON object`]);
     }
+    return parsed as Record<string, unknown>;
+  }
+
+  /**
+   * Copy a configuration with secret values masked, for printing
+   */
+  maskSecrets(config: ClientConfig): Record<string, unknown> {
+    return maskValue(config, { type: 'object', fields: CONFIG_SCHEMA }) as Record<string, unknown>;
+  }
+
+  /**
+   * Watch the config file for changes
+   * The directory is watched so that editors replacing the file are noticed too
+   * @param onChange Called (debounced) after the file changed
+   * @returns Function that stops watching
+   */
+  watchConfig(onChange: () => void, debounceMs: number = 500): () => void {
+    const fileName = path.basename(this.configPath);
+    let timer: NodeJS.Timeout | null = null;
+
+    const watcher = fs.watch(path.dirname(path.resolve(this.configPath)), (_event, changed) => {
+      if (changed !== null && changed.toString() !== fileName) {
+        return;
+      }
+      if (timer) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(() => {
+        timer = null;
+        onChange();
+      }, debounceMs);
+    });
+
+    return () => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      watcher.close();
+    };
   }
 
   /**
    * Validate and merge configuration with defaults
    * Validate configuration and use defaults for missing fields
+   * @throws ConfigValidationError if the configuration is not an object, serverUrl is not
+   * a valid URL, reportInterval is not a number or tls pins are set without verification
    */
   validateConfig(config: Partial<ClientConfig>): ClientConfig {
     const defaults = this.getDefaultConfig();
 
+    if (config === null || typeof config !== 'object' || Array.isArray(config)) {
+      throw new ConfigValidationError(['configuration must be a JSON object']);
+    }
+
     // Merge with defaults
     const merged: ClientConfig = {
       ...defaults,
       ...config,
     };
 
+    try {
+      new URL(merged.serverUrl);
+    } catch {
+      throw new ConfigValidationError([`serverUrl: expected a URL, got "${merged.serverUrl}"`]);
+    }
+    if (typeof merged.reportInterval !== 'number' || !Number.isFinite(merged.reportInterval)) {
+      throw new ConfigValidationError([
+        `reportInterval: expected a number, got ${JSON.stringify(merged.reportInterval)}`,
+      ]);
+    }
+
     // Requirement 6.3: Use hostname if clientName is empty
     if (!merged.clientName || merged.clientName.trim() === '') {
       merged.clientName = os.hostname();
@@ -85,11 +349,173 @@ export class ConfigManager {
       merged.reportInterval = merged.minReportInterval;
     }
 
+    // Batches must hold at least one report
+    if (!(merged.batchSize >= 1)) {
+      merged.batchSize = defaults.batchSize;
+    }
+    if (!(merged.batchMaxBytes > 0)) {
+      merged.batchMaxBytes = defaults.batchMaxBytes;
+    }
+
+    if (!(merged.cacheMaxBytes > 0)) {
+      merged.cacheMaxBytes = defaults.cacheMaxBytes;
+    }
+
+    // Fill in missing retry fields
+    merged.retry = {
+      ...defaults.retry,
+      ...config.retry,
+    };
+    if (!(merged.retry.failureThreshold >= 1)) {
+      merged.retry.failureThreshold = defaults.retry.failureThreshold;
+    }
+
+    // Keep destinations that have a URL
+    if (!Array.isArray(merged.destinations)) {
+      merged.destinations = [];
+    }
+    merged.destinations = merged.destinations.filter((destination) => {
+      if (!destination || typeof destination.url !== 'string' || destination.url === '') {
+        console.warn('Ignoring destination without url');
+        return false;
+      }
+      return true;
+    });
+
+    // Fill in missing TLS fields
+    merged.tls = {
+      ...defaults.tls,
+      ...config.tls,
+    };
+    if (!Array.isArray(merged.tls.pinnedPublicKeys)) {
+      merged.tls.pinnedPublicKeys = defaults.tls.pinnedPublicKeys;
+    }
+    // Node does not check pins when certificate verification is off
+    if (merged.tls.pinnedPublicKeys.length > 0 && merged.tls.rejectUnauthorized === false) {
+      throw new ConfigValidationError([
+        'tls: pinnedPublicKeys cannot be used with rejectUnauthorized false; add the server certificate to tls.ca instead',
+      ]);
+    }
+
+    // Fill in missing process monitoring fields
+    merged.processMonitoring = {
+      ...defaults.processMonitoring,
+      ...config.processMonitoring,
+    };
+    if (!Array.isArray(merged.processMonitoring.sortBy)) {
+      merged.processMonitoring.sortBy = defaults.processMonitoring.sortBy;
+    }
+    merged.processMonitoring.sortBy = merged.processMonitoring.sortBy.filter(
+      (key) => key === 'cpu' || key === 'memory'
+    );
+    if (!(merged.processMonitoring.topN >= 1)) {
+      merged.processMonitoring.topN = defaults.processMonitoring.topN;
+    }
+
+    // Fill in missing container monitoring fields
+    merged.containerMonitoring = {
+      ...defaults.containerMonitoring,
+      ...config.containerMonitoring,
+    };
+
+    // Fill in missing systemd monitoring fields
+    merged.systemdMonitoring = {
+      ...defaults.systemdMonitoring,
+      ...config.systemdMonitoring,
+    };
+    if (!Array.isArray(merged.systemdMonitoring.units)) {
+      merged.systemdMonitoring.units = [];
+    }
+
+    // Fill in missing sampling fields
+    merged.sampling = {
+      ...defaults.sampling,
+      ...config.sampling,
+    };
+    if (!Array.isArray(merged.sampling.metrics)) {
+      merged.sampling.metrics = defaults.sampling.metrics;
+    }
+    if (!(merged.sampling.maxSamples >= 1)) {
+      merged.sampling.maxSamples = defaults.sampling.maxSamples;
+    }
+
+    // Fill in missing remote control fields
+    merged.remoteControl = {
+      ...defaults.remoteControl,
+      ...config.remoteControl,
+    };
+    if (!Array.isArray(merged.remoteControl.allowedKeys)) {
+      merged.remoteControl.allowedKeys = defaults.remoteControl.allowedKeys;
+    }
+    if (!Array.isArray(merged.remoteControl.allowedCommands)) {
+      merged.remoteControl.allowedCommands = defaults.remoteControl.allowedCommands;
+    }
+
+    if (merged.sendStaticInfo !== 'always' && merged.sendStaticInfo !== 'onChange') {
+      console.warn(`Unknown sendStaticInfo "${merged.sendStaticInfo}", using "onChange"`);
+      merged.sendStaticInfo = 'onChange';
+    }
+
+    // Ignore unknown transport types and fall back to scheme detection
+    if (merged.transport && !['http', 'websocket', 'mqtt'].includes(merged.transport)) {
+      console.warn(`Unknown transport "${merged.transport}", selecting by server URL scheme`);
+      merged.transport = undefined;
+    }
+
+    // Fill in missing metrics exporter fields
+    merged.metricsExporter = {
+      ...defaults.metricsExporter,
+      ...config.metricsExporter,
+    };
+
+    // Fill in missing health endpoint fields
+    merged.healthEndpoint = {
+      ...defaults.healthEndpoint,
+      ...config.healthEndpoint,
+    };
+
     // Ensure arrays are properly initialized
     if (!Array.isArray(merged.clientTags)) {
       merged.clientTags = [];
     }
+    if (!Array.isArray(merged.alertRules)) {
+      merged.alertRules = [];
+    }
+    if (!Array.isArray(merged.customCollectors)) {
+      merged.customCollectors = [];
+    }
+    if (!Array.isArray(merged.probes)) {
+      merged.probes = [];
+    }
+    if (!Array.isArray(merged.logWatch)) {
+      merged.logWatch = [];
+    }
 
     return merged;
   }
 }
+
+/**
+ * Recursively replace secret string values with a placeholder
+ */
+function maskValue(value: unknown, spec: FieldSpec | undefined): unknown {
+  if (!spec || value === null || value === undefined) {
+    return value;
+  }
+
+  switch (spec.type) {
+    case 'string':
+      return spec.secret && value !== '' ? '********' : value;
+    case 'array':
+      return Array.isArray(value) ? value.map((item) => maskValue(item, spec.items)) : value;
+    case 'object':
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return value;
+      }
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, maskValue(item, spec.fields[key])])
+      );
+    default:
+      return value;
+  }
+}
@@ -0,0 +1,46 @@
+import { ClientConfig, DestinationConfig } from '../types';
+import { destinationFileKey, resolveDestinations } from '../destinations';
+
+function resolve(destinations: DestinationConfig[]) {
+  return resolveDestinations({ serverUrl: 'http://localhost:7788', destinations } as ClientConfig);
+}
+
+describe('resolveDestinations', () => {
+  it('uses serverUrl without configured destinations', () => {
+    expect(resolve([])).toEqual([
+      expect.objectContaining({ name: 'default', url: 'http://localhost:7788', mode: 'failover' }),
+    ]);
+  });
+
+  it('names destinations after their host', () => {
+    const names = resolve([
+      { url: 'https://a.example.com' },
+      { url: 'https://b.example.com:8443', mode: 'fanout' },
+    ]).map(({ name, mode }) => [name, mode]);
+
+    expect(names).toEqual([
+      ['a.example.com', 'failover'],
+      ['b.example.com:8443', 'fanout'],
+    ]);
+  });
+
+  it('gives every destination its own queue file name', () => {
+    const destinations = resolve([
+      { name: 'team/a', url: 'https://a.example.com', mode: 'fanout' },
+      { name: 'team_a', url: 'https://b.example.com', mode: 'fanout' },
+      { name: 'Team_A', url: 'https://c.example.com', mode: 'fanout' },
+      { name: 'team_a-2', url: 'https://d.example.com', mode: 'fanout' },
+      { name: 'team/a', url: 'https://e.example.com', mode: 'fanout' },
+    ]);
+
+    const keys = destinations.map(({ name }) => destinationFileKey(name).toLowerCase());
+    expect(new Set(keys).size).toBe(destinations.length);
+    expect(destinations[0].name).toBe('team/a');
+  });
+});
+
+describe('destinationFileKey', () => {
+  it('replaces characters that are not safe in file names', () => {
+    expect(destinationFileKey('eu-west/primary:8443')).toBe('eu-west_primary_8443');
+  });
+});
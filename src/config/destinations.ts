@@ -0,0 +1,61 @@
+import { ClientConfig, DestinationConfig, DestinationMode } from './types';
+
+/**
+ * Destination with its name and mode filled in
+ */
+export interface ResolvedDestination extends DestinationConfig {
+  name: string;
+  mode: DestinationMode;
+}
+
+/**
+ * Form of a destination name used in its queue file name
+ */
+export function destinationFileKey(name: string): string {
+  return name.replace(/[^\w.-]/g, '_');
+}
+
+/**
+ * Get the destinations to report to
+ * Without configured destinations, serverUrl is the only one. Names default to the
+ * URL host and are made unique, as they name the queue files: two names that only
+ * differ in characters replaced in file names, or in case, get a suffix.
+ */
+export function resolveDestinations(config: ClientConfig): ResolvedDestination[] {
+  if (!config.destinations?.length) {
+    return [
+      {
+        name: 'default',
+        url: config.serverUrl,
+        mode: 'failover',
+        authToken: config.authToken,
+        signingSecret: config.signingSecret,
+        transport: config.transport,
+      },
+    ];
+  }
+
+  const fileKeys = new Set<string>();
+  const taken = (name: string) => fileKeys.has(destinationFileKey(name).toLowerCase());
+  return config.destinations.map((destination, index) => {
+    const base = destination.name || hostOf(destination.url) || `destination-${index + 1}`;
+    let name = base;
+    for (let suffix = index + 1; taken(name); suffix++) {
+      name = `${base}-${suffix}`;
+    }
+    fileKeys.add(destinationFileKey(name).toLowerCase());
+    return {
+      ...destination,
+      name,
+      mode: destination.mode === 'fanout' ? 'fanout' : 'failover',
+    };
+  });
+}
+
+function hostOf(url: string): string | undefined {
+  try {
+    return new URL(url).host || undefined;
+  } catch {
+    return undefined;
+  }
+}
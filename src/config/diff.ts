@@ -0,0 +1,40 @@
+import { ClientConfig } from './types';
+import { isSecretField } from './schema';
+
+/**
+ * A single changed configuration field
+ */
+export interface ConfigChange {
+  field: keyof ClientConfig;
+  description: string; // Human-readable "old → new", with secrets masked
+}
+
+/**
+ * Compare two configurations field by field
+ * @param previous Configuration currently in use
+ * @param next Newly loaded configuration
+ * @returns Changed top-level fields
+ */
+export function diffConfig(previous: ClientConfig, next: ClientConfig): ConfigChange[] {
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)]) as Set<
+    keyof ClientConfig
+  >;
+  const changes: ConfigChange[] = [];
+
+  for (const field of fields) {
+    const before = JSON.stringify(previous[field]);
+    const after = JSON.stringify(next[field]);
+    if (before === after) {
+      continue;
+    }
+
+    changes.push({
+      field,
+      description: isSecretField(field)
+        ? `${field}: (changed)`
+        : `${field}: ${before ?? 'unset'} → ${after ?? 'unset'}`,
+    });
+  }
+
+  return changes;
+}
@@ -0,0 +1,10 @@
+/**
+ * Error raised when a configuration is rejected
+ * Carries every problem found, each as a human-readable line
+ */
+export class ConfigValidationError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigValidationError';
+  }
+}
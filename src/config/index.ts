@@ -1,3 +1,42 @@
 // Export configuration types and manager
-export { ClientConfig } from './types';
-export { ConfigManager } from './ConfigManager';
+export {
+  ClientConfig,
+  ProcessMonitoringConfig,
+  ProcessSortKey,
+  AlertSeverity,
+  AlertRuleConfig,
+  MetricsExporterConfig,
+  HealthEndpointConfig,
+  TransportType,
+  DestinationMode,
+  DestinationConfig,
+  CustomMetricFormat,
+  CustomCollectorConfig,
+  ProbeType,
+  ProbeConfig,
+  ContainerMonitoringConfig,
+  SystemdMonitoringConfig,
+  LogPatternConfig,
+  LogWatchConfig,
+  SampledMetric,
+  SamplingConfig,
+  StaticInfoMode,
+  RetryConfig,
+  TlsConfig,
+  RemoteCommandType,
+  RemoteControlConfig,
+} from './types';
+export { ConfigManager, ConfigManagerOptions } from './ConfigManager';
+export { ConfigValidationError } from './errors';
+export { CONFIG_SCHEMA, FieldSpec, checkObject, isSecretField } from './schema';
+export { ResolvedDestination, destinationFileKey, resolveDestinations } from './destinations';
+export { REMOTE_CONFIG_KEYS, RemoteOverrides, filterRemoteOverrides } from './remote';
+export {
+  readEnvConfig,
+  parseCliArgs,
+  mergeLayers,
+  ENV_PREFIX,
+  CliOptions,
+  EnvConfig,
+} from './sources';
+export { diffConfig, ConfigChange } from './diff';
@@ -0,0 +1,62 @@
+import { RemoteControlConfig } from './types';
+import { checkObject } from './schema';
+
+/**
+ * Keys a server may ever change remotely
+ * Settings that run commands, read files, open ports or decide where data is sent
+ * stay local, whatever remoteControl.allowedKeys says
+ */
+export const REMOTE_CONFIG_KEYS = [
+  'reportInterval',
+  'clientName',
+  'clientTags',
+  'clientPurpose',
+  'priority',
+  'location',
+  'processMonitoring',
+  'containerMonitoring',
+  'systemdMonitoring',
+  'sampling',
+  'alertRules',
+  'sendStaticInfo',
+  'staticInfoRefreshInterval',
+] as const;
+
+/**
+ * Result of filtering remote overrides
+ */
+export interface RemoteOverrides {
+  accepted: Record<string, unknown>; // Overrides that may be applied
+  rejected: string[]; // Keys that are not allowed or have invalid values
+}
+
+/**
+ * Keep only remote overrides that the local configuration allows
+ * A key is allowed if remote control is enabled, it is one of REMOTE_CONFIG_KEYS and
+ * it is listed in allowedKeys; its value must match the configuration schema
+ * @param overrides Overrides sent by the server
+ * @param settings Local remote control settings
+ */
+export function filterRemoteOverrides(
+  overrides: Record<string, unknown>,
+  settings: RemoteControlConfig
+): RemoteOverrides {
+  const accepted: Record<string, unknown> = {};
+  const rejected: string[] = [];
+  const remoteKeys: readonly string[] = REMOTE_CONFIG_KEYS;
+
+  for (const [key, value] of Object.entries(overrides)) {
+    const allowed =
+      settings.enabled === true &&
+      remoteKeys.includes(key) &&
+      Array.isArray(settings.allowedKeys) &&
+      settings.allowedKeys.includes(key);
+    if (!allowed || checkObject({ [key]: value }).length > 0) {
+      rejected.push(key);
+    } else {
+      accepted[key] = value;
+    }
+  }
+
+  return { accepted, rejected };
+}
@@ -0,0 +1,397 @@
+/**
+ * Configuration schema
+ * Describes the type of every configuration field, used to coerce environment
+ * variables and CLI flags and to validate configuration in strict mode
+ */
+
+/**
+ * Field specification
+ */
+export type FieldSpec =
+  | { type: 'string'; secret?: boolean }
+  | { type: 'number'; min?: number }
+  | { type: 'boolean' }
+  | { type: 'url'; schemes: string[] }
+  | { type: 'duration' }
+  | { type: 'enum'; values: string[] }
+  | { type: 'array'; items: FieldSpec }
+  | { type: 'object'; fields: Record<string, FieldSpec> };
+
+const string: FieldSpec = { type: 'string' };
+const boolean: FieldSpec = { type: 'boolean' };
+const count: FieldSpec = { type: 'number', min: 0 };
+const endpoint: FieldSpec = {
+  type: 'url',
+  schemes: ['http', 'https', 'ws', 'wss', 'mqtt', 'mqtts'],
+};
+
+/**
+ * Schema of ClientConfig
+ * Keys starting with an underscore are comments and are ignored
+ */
+export const CONFIG_SCHEMA: Record<string, FieldSpec> = {
+  clientName: string,
+  clientTags: { type: 'array', items: string },
+  clientPurpose: string,
+  serverUrl: endpoint,
+  destinations: {
+    type: 'array',
+    items: {
+      type: 'object',
+      fields: {
+        name: string,
+        url: endpoint,
+        mode: { type: 'enum', values: ['failover', 'fanout'] },
+        authToken: { type: 'string', secret: true },
+        signingSecret: { type: 'string', secret: true },
+        transport: { type: 'enum', values: ['http', 'websocket', 'mqtt'] },
+      },
+    },
+  },
+  reportInterval: count,
+  minReportInterval: count,
+  maxRetries: count,
+  retry: {
+    type: 'object',
+    fields: {
+      initialDelay: { type: 'duration' },
+      maxDelay: { type: 'duration' },
+      failureThreshold: { type: 'number', min: 1 },
+    },
+  },
+  cacheSize: count,
+  cacheMaxBytes: { type: 'number', min: 1 },
+  cacheMaxAge: { type: 'duration' },
+  location: string,
+  authToken: { type: 'string', secret: true },
+  signingSecret: { type: 'string', secret: true },
+  tls: {
+    type: 'object',
+    fields: {
+      ca: string,
+      cert: string,
+      key: string,
+      passphrase: { type: 'string', secret: true },
+      pinnedPublicKeys: { type: 'array', items: string },
+      rejectUnauthorized: boolean,
+    },
+  },
+  proxy: {
+    type: 'url',
+    schemes: ['http', 'https', 'socks', 'socks4', 'socks4a', 'socks5', 'socks5h'],
+  },
+  priority: { type: 'number' },
+  batchSize: { type: 'number', min: 1 },
+  batchMaxBytes: { type: 'number', min: 1 },
+  batchCompression: boolean,
+  processMonitoring: {
+    type: 'object',
+    fields: {
+      enabled: boolean,
+      topN: { type: 'number', min: 1 },
+      sortBy: { type: 'array', items: { type: 'enum', values: ['cpu', 'memory'] } },
+      includeCommandLine: boolean,
+      maxCommandLength: count,
+    },
+  },
+  alertRules: {
+    type: 'array',
+    items: {
+      type: 'object',
+      fields: {
+        name: string,
+        expr: string,
+        severity: { type: 'enum', values: ['info', 'warning', 'critical'] },
+        for: { type: 'duration' },
+        cooldown: { type: 'duration' },
+        hysteresis: count,
+      },
+    },
+  },
+  pushEnabled: boolean,
+  containerMonitoring: {
+    type: 'object',
+    fields: {
+      enabled: boolean,
+      cgroupRoot: string,
+      dockerDataRoot: string,
+    },
+  },
+  systemdMonitoring: {
+    type: 'object',
+    fields: {
+      enabled: boolean,
+      units: { type: 'array', items: string },
+    },
+  },
+  logWatch: {
+    type: 'array',
+    items: {
+      type: 'object',
+      fields: {
+        path: string,
+        patterns: {
+          type: 'array',
+          items: { type: 'object', fields: { name: string, regex: string, flags: string } },
+        },
+        sampleLines: count,
+        maxLineLength: { type: 'number', min: 1 },
+        redact: { type: 'array', items: string },
+      },
+    },
+  },
+  sampling: {
+    type: 'object',
+    fields: {
+      enabled: boolean,
+      interval: { type: 'duration' },
+      metrics: {
+        type: 'array',
+        items: {
+          type: 'enum',
+          values: [
+            'cpuUsage',
+            'memoryUsage',
+            'swapUsage',
+            'networkUpload',
+            'networkDownload',
+            'load1',
+          ],
+        },
+      },
+      maxSamples: { type: 'number', min: 1 },
+    },
+  },
+  sendStaticInfo: { type: 'enum', values: ['onChange', 'always'] },
+  staticInfoRefreshInterval: { type: 'duration' },
+  remoteControl: {
+    type: 'object',
+    fields: {
+      enabled: boolean,
+      pollInterval: { type: 'duration' },
+      allowedKeys: { type: 'array', items: string },
+      allowedCommands: {
+        type: 'array',
+        items: { type: 'enum', values: ['collectStaticInfo', 'flushCache', 'sendDiagnostics'] },
+      },
+    },
+  },
+  metricsExporter: {
+    type: 'object',
+    fields: {
+      enabled: boolean,
+      host: string,
+      port: { type: 'number', min: 0 },
+    },
+  },
+  healthEndpoint: {
+    type: 'object',
+    fields: {
+      enabled: boolean,
+      host: string,
+      port: { type: 'number', min: 0 },
+    },
+  },
+  transport: { type: 'enum', values: ['http', 'websocket', 'mqtt'] },
+  mqttTopic: string,
+  customCollectors: {
+    type: 'array',
+    items: {
+      type: 'object',
+      fields: {
+        name: string,
+        command: string,
+        format: { type: 'enum', values: ['number', 'json', 'nagios'] },
+        timeout: { type: 'duration' },
+        interval: { type: 'duration' },
+      },
+    },
+  },
+  probes: {
+    type: 'array',
+    items: {
+      type: 'object',
+      fields: {
+        name: string,
+        type: { type: 'enum', values: ['http', 'tcp', 'process'] },
+        url: { type: 'url', schemes: ['http', 'https'] },
+        expectedStatus: { type: 'array', items: { type: 'number', min: 100 } },
+        bodyPattern: string,
+        host: string,
+        port: { type: 'number', min: 1 },
+        processName: string,
+        timeout: { type: 'duration' },
+      },
+    },
+  },
+};
+
+/**
+ * Check whether a dotted field path holds a secret
+ */
+export function isSecretField(fieldPath: string): boolean {
+  const spec = findFieldSpec(fieldPath.split('.'));
+  return spec?.type === 'string' && spec.secret === true;
+}
+
+/**
+ * Look up the spec of a (nested) field
+ * @param segments Field path segments, e.g. ['metricsExporter', 'port']
+ */
+export function findFieldSpec(segments: string[]): FieldSpec | undefined {
+  let fields: Record<string, FieldSpec> | undefined = CONFIG_SCHEMA;
+  let spec: FieldSpec | undefined;
+
+  for (const segment of segments) {
+    spec = fields?.[segment];
+    if (!spec) {
+      return undefined;
+    }
+    fields = spec.type === 'object' ? spec.fields : undefined;
+  }
+
+  return spec;
+}
+
+/**
+ * Describe a value for error messages
+ */
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `string "${value}"`;
+  if (typeof value === 'object') return 'an object';
+  return `${typeof value} ${String(value)}`;
+}
+
+/**
+ * Validate a value against a spec
+ * @param value Value to check
+ * @param spec Field specification
+ * @param at Field path used in messages
+ * @returns Human-readable problems, empty if valid
+ */
+export function checkValue(value: unknown, spec: FieldSpec, at: string): string[] {
+  switch (spec.type) {
+    case 'string':
+      return typeof value === 'string' ? [] : [`${at}: expected a string, got ${describe(value)}`];
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return [`${at}: expected a number, got ${describe(value)}`];
+      }
+      if (spec.min !== undefined && value < spec.min) {
+        return [`${at}: must be at least ${spec.min}, got ${value}`];
+      }
+      return [];
+    case 'boolean':
+      return typeof value === 'boolean'
+        ? []
+        : [`${at}: expected true or false, got ${describe(value)}`];
+    case 'url': {
+      const expected = `expected a URL (${spec.schemes.join(', ')})`;
+      if (typeof value !== 'string') {
+        return [`${at}: ${expected}, got ${describe(value)}`];
+      }
+      try {
+        const scheme = new URL(value).protocol.replace(/:$/, '');
+        return spec.schemes.includes(scheme) ? [] : [`${at}: ${expected}, got "${value}"`];
+      } catch {
+        return [`${at}: ${expected}, got "${value}"`];
+      }
+    }
+    case 'duration':
+      return typeof value === 'number' ||
+        (typeof value === 'string' && /^\s*\d+(?:\.\d+)?\s*(ms|s|m|h|d)?\s*$/.test(value))
+        ? []
+        : [`${at}: expected a duration such as "30s" or "5m", got ${describe(value)}`];
+    case 'enum':
+      return typeof value === 'string' && spec.values.includes(value)
+        ? []
+        : [`${at}: expected one of ${spec.values.join(', ')}, got ${describe(value)}`];
+    case 'array':
+      if (!Array.isArray(value)) {
+        return [`${at}: expected an array, got ${describe(value)}`];
+      }
+      return value.flatMap((item, index) => checkValue(item, spec.items, `${at}[${index}]`));
+    case 'object':
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        return [`${at}: expected an object, got ${describe(value)}`];
+      }
+      return checkObject(value as Record<string, unknown>, spec.fields, `${at}.`);
+  }
+}
+
+/**
+ * Validate an object against a set of field specs
+ * Reports unknown keys, except comment keys starting with an underscore
+ * @param value Object to check
+ * @param fields Field specifications
+ * @param prefix Prefix for field paths in messages
+ * @returns Human-readable problems, empty if valid
+ */
+export function checkObject(
+  value: Record<string, unknown>,
+  fields: Record<string, FieldSpec> = CONFIG_SCHEMA,
+  prefix: string = ''
+): string[] {
+  const problems: string[] = [];
+
+  for (const [key, item] of Object.entries(value)) {
+    if (key.startsWith('_')) {
+      continue;
+    }
+    const spec = fields[key];
+    if (!spec) {
+      problems.push(`${prefix}${key}: unknown key`);
+      continue;
+    }
+    if (item !== undefined) {
+      problems.push(...checkValue(item, spec, `${prefix}${key}`));
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Convert a raw string (from an environment variable or CLI flag) to a field value
+ * Arrays of strings accept comma-separated lists, other arrays and objects JSON
+ * @throws Error with a human-readable message if the string cannot be converted
+ */
+export function coerceValue(raw: string, spec: FieldSpec, at: string): unknown {
+  switch (spec.type) {
+    case 'number': {
+      const value = Number(raw);
+      if (raw.trim() === '' || !Number.isFinite(value)) {
+        throw new Error(`${at}: expected a number, got "${raw}"`);
+      }
+      return value;
+    }
+    case 'boolean':
+      if (/^(true|1|yes|on)$/i.test(raw)) return true;
+      if (/^(false|0|no|off)$/i.test(raw)) return false;
+      throw new Error(`${at}: expected true or false, got "${raw}"`);
+    case 'duration':
+      return /^\d+(?:\.\d+)?$/.test(raw) ? Number(raw) : raw;
+    case 'array':
+      if (spec.items.type === 'string' || spec.items.type === 'enum') {
+        return raw
+          .split(',')
+          .map((item) => item.trim())
+          .filter((item) => item !== '');
+      }
+      return parseJson(raw, at);
+    case 'object':
+      return parseJson(raw, at);
+    default:
+      return raw;
+  }
+}
+
+function parseJson(raw: string, at: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new Error(`${at}: expected JSON, got "${raw}"`);
+  }
+}
@@ -0,0 +1,222 @@
+import { CONFIG_SCHEMA, FieldSpec, coerceValue } from './schema';
+
+/**
+ * Prefix of environment variables that override configuration fields
+ */
+export const ENV_PREFIX = 'STATUS_CLIENT_';
+
+/**
+ * Configuration read from environment variables
+ */
+export interface EnvConfig {
+  config: Record<string, unknown>; // Field overrides
+  configPath?: string; // STATUS_CLIENT_CONFIG
+  strict?: boolean; // STATUS_CLIENT_STRICT
+  problems: string[]; // Unknown variables and unconvertible values
+}
+
+/**
+ * Options parsed from command-line arguments
+ */
+export interface CliOptions {
+  overrides: Record<string, unknown>; // Field overrides
+  configPath?: string; // --config <path>
+  strict: boolean; // --strict
+  printConfig: boolean; // --print-config
+  once: boolean; // --once
+  json: boolean; // --json
+  positionals: string[]; // Arguments that are not flags
+  problems: string[]; // Unknown flags and unconvertible values
+}
+
+/**
+ * Normalize a field name for matching: 'SERVER_URL', 'server-url' and 'serverUrl' all match
+ */
+function normalize(name: string): string {
+  return name.replace(/[_-]/g, '').toLowerCase();
+}
+
+/**
+ * Resolve a path of loosely written segments to schema field names
+ * @returns Field names and the spec of the last one, or undefined if unknown
+ */
+function resolveField(segments: string[]): { path: string[]; spec: FieldSpec } | undefined {
+  let fields: Record<string, FieldSpec> | undefined = CONFIG_SCHEMA;
+  const path: string[] = [];
+  let spec: FieldSpec | undefined;
+
+  for (const segment of segments) {
+    const key: string | undefined = fields
+      ? Object.keys(fields).find((name) => normalize(name) === normalize(segment))
+      : undefined;
+    if (!fields || !key) {
+      return undefined;
+    }
+    spec = fields[key];
+    path.push(key);
+    fields = spec.type === 'object' ? spec.fields : undefined;
+  }
+
+  return spec ? { path, spec } : undefined;
+}
+
+/**
+ * Set a nested value, creating intermediate objects
+ */
+function setPath(target: Record<string, unknown>, path: string[], value: unknown): void {
+  let current = target;
+  for (const key of path.slice(0, -1)) {
+    if (current[key] === null || typeof current[key] !== 'object') {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  }
+  current[path[path.length - 1]] = value;
+}
+
+/**
+ * Read STATUS_CLIENT_* environment variables
+ * Nested fields use a double underscore, e.g. STATUS_CLIENT_METRICS_EXPORTER__PORT=9100
+ * @param env Environment to read from
+ */
+export function readEnvConfig(env: NodeJS.ProcessEnv): EnvConfig {
+  const result: EnvConfig = { config: {}, problems: [] };
+
+  for (const [name, raw] of Object.entries(env)) {
+    if (!name.startsWith(ENV_PREFIX) || raw === undefined) {
+      continue;
+    }
+
+    const key = name.slice(ENV_PREFIX.length);
+    if (key === 'CONFIG') {
+      result.configPath = raw;
+      continue;
+    }
+    if (key === 'STRICT') {
+      result.strict = /^(true|1|yes|on)$/i.test(raw);
+      continue;
+    }
+
+    const field = resolveField(key.split('__'));
+    if (!field) {
+      result.problems.push(`${name}: unknown setting`);
+      continue;
+    }
+
+    try {
+      setPath(result.config, field.path, coerceValue(raw, field.spec, name));
+    } catch (error) {
+      result.problems.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse command-line arguments
+ * Fields are set with --field-name value or --field-name=value, nested fields with
+ * a dot (--metrics-exporter.port 9100); boolean fields also accept --flag and --no-flag
+ * @param argv Arguments without the node executable and script path
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  const result: CliOptions = {
+    overrides: {},
+    strict: false,
+    printConfig: false,
+    once: false,
+    json: false,
+    positionals: [],
+    problems: [],
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      result.positionals.push(arg);
+      continue;
+    }
+
+    const separator = arg.indexOf('=');
+    const name = separator >= 0 ? arg.slice(2, separator) : arg.slice(2);
+    let value: string | undefined = separator >= 0 ? arg.slice(separator + 1) : undefined;
+    const takeValue = (): string | undefined => {
+      if (value === undefined && i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+        value = argv[++i];
+      }
+      return value;
+    };
+
+    if (name === 'strict') {
+      result.strict = true;
+      continue;
+    }
+    if (name === 'print-config') {
+      result.printConfig = true;
+      continue;
+    }
+    if (name === 'once' || name === 'json') {
+      result[name] = true;
+      continue;
+    }
+    if (name === 'config') {
+      result.configPath = takeValue();
+      if (!result.configPath) {
+        result.problems.push('--config: expected a file path');
+      }
+      continue;
+    }
+
+    const inverse = name.startsWith('no-') ? resolveField(name.slice(3).split('.')) : undefined;
+    const negated = inverse?.spec.type === 'boolean' ? inverse : undefined;
+    const field = negated || resolveField(name.split('.'));
+    if (!field) {
+      result.problems.push(`--${name}: unknown option`);
+      continue;
+    }
+
+    if (field.spec.type === 'boolean' && value === undefined) {
+      setPath(result.overrides, field.path, !negated);
+      continue;
+    }
+
+    const raw = takeValue();
+    if (raw === undefined) {
+      result.problems.push(`--${name}: expected a value`);
+      continue;
+    }
+
+    try {
+      setPath(result.overrides, field.path, coerceValue(raw, field.spec, `--${name}`));
+    } catch (error) {
+      result.problems.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Merge configuration layers, later layers taking precedence
+ * Plain objects are merged field by field, everything else is replaced
+ */
+export function mergeLayers(...layers: Record<string, unknown>[]): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      const existing = result[key];
+      if (isPlainObject(existing) && isPlainObject(value)) {
+        result[key] = mergeLayers(existing, value);
+      } else {
+        result[key] = value;
+      }
+    }
+  }
+
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -7,11 +7,274 @@ export interface ClientConfig {
   clientTags: string[];        // Client tags list
   clientPurpose: string;       // Client purpose description
   serverUrl: string;           // Server endpoint URL
+  destinations: DestinationConfig[]; // Servers to report to (empty: serverUrl only)
   reportInterval: number;      // Report interval in milliseconds
   minReportInterval: number;   // Minimum allowed report interval in milliseconds
   maxRetries: number;          // Maximum retry attempts for failed reports
+  retry: RetryConfig;          // Backoff and circuit breaker for an unavailable server
   cacheSize: number;           // Local cache size limit
+  cacheMaxBytes: number;       // Maximum size of the local cache on disk in bytes
+  cacheMaxAge: string | number; // Cached entries older than this are dropped (0 disables)
   location?: string;           // Custom location (override automatic detection)
   authToken?: string;          // Authentication token for server validation
+  signingSecret?: string;      // Key for HMAC-SHA256 request signatures (unset: not signed)
+  tls: TlsConfig;              // Client certificate, CA bundle and pinning for secure URLs
+  proxy?: string;              // Proxy URL (default: HTTPS_PROXY/HTTP_PROXY/ALL_PROXY)
   priority?: number;           // Client priority for sorting (lower number = higher priority)
+  batchSize: number;           // Maximum number of cached reports sent in one batch
+  batchMaxBytes: number;       // Maximum uncompressed size of one batch in bytes
+  batchCompression: boolean;   // Gzip-compress batch request bodies
+  processMonitoring: ProcessMonitoringConfig; // Top-N process reporting
+  alertRules: AlertRuleConfig[]; // Locally evaluated alert rules
+  pushEnabled: boolean;        // Push reports to serverUrl (disable to only serve metrics)
+  metricsExporter: MetricsExporterConfig; // Local Prometheus/OpenMetrics endpoint
+  healthEndpoint: HealthEndpointConfig; // Local endpoint reporting the client's own health
+  transport?: TransportType;   // Force a transport (default: chosen by serverUrl scheme)
+  mqttTopic: string;           // MQTT topic template ({clientId}, {type} placeholders)
+  customCollectors: CustomCollectorConfig[]; // User-defined metric commands
+  probes: ProbeConfig[];       // Service health probes
+  containerMonitoring: ContainerMonitoringConfig; // Per-container cgroup metrics
+  systemdMonitoring: SystemdMonitoringConfig; // systemd unit states
+  logWatch: LogWatchConfig[];  // Log files tailed for pattern counts
+  sampling: SamplingConfig;    // High-frequency sampling between reports
+  sendStaticInfo: StaticInfoMode; // When reports carry static system info
+  staticInfoRefreshInterval: string | number; // How often static info is re-collected (0 disables)
+  remoteControl: RemoteControlConfig; // Config overrides and commands sent by the server
+}
+
+/**
+ * Report transport type
+ * http(s):// uses HTTP POST, ws(s):// WebSocket and mqtt(s):// MQTT
+ */
+export type TransportType = 'http' | 'websocket' | 'mqtt';
+
+/**
+ * How a destination receives data
+ * - failover: the failover destinations are tried in list order until one accepts
+ * - fanout: receives everything, independently of the other destinations
+ */
+export type DestinationMode = 'failover' | 'fanout';
+
+/**
+ * Report destination
+ * Used instead of serverUrl, authToken, signingSecret and transport when configured;
+ * TLS, proxy and MQTT topic settings are shared by all destinations
+ */
+export interface DestinationConfig {
+  name?: string;               // Name in logs and the queue file name (default: URL host)
+  url: string;                 // Server endpoint URL
+  mode?: DestinationMode;      // Default: 'failover'
+  authToken?: string;          // Authentication token for this server
+  signingSecret?: string;      // Key for HMAC-SHA256 request signatures to this server
+  transport?: TransportType;   // Force a transport (default: chosen by URL scheme)
+}
+
+/**
+ * When reports carry static system info
+ * - onChange: first report and whenever it changes (identified by staticInfoHash)
+ * - always: every report, for servers that do not track staticInfoHash
+ */
+export type StaticInfoMode = 'onChange' | 'always';
+
+/**
+ * Process sort key
+ * Selects which resource a top-N process list is ranked by
+ */
+export type ProcessSortKey = 'cpu' | 'memory';
+
+/**
+ * Process monitoring configuration
+ * Controls the top-N resource consumer lists in dynamic status
+ */
+export interface ProcessMonitoringConfig {
+  enabled: boolean;            // Include top processes in dynamic status
+  topN: number;                // Number of processes per list
+  sortBy: ProcessSortKey[];    // One list is reported per sort key
+  includeCommandLine: boolean; // Send process command lines
+  maxCommandLength: number;    // Truncate command lines to this many characters
+}
+
+/**
+ * Container monitoring configuration
+ * Reads per-container accounting from the cgroup filesystem (Linux only)
+ */
+export interface ContainerMonitoringConfig {
+  enabled: boolean;            // Include per-container stats in dynamic status
+  cgroupRoot: string;          // cgroup filesystem mount point
+  dockerDataRoot: string;      // Docker data root, used to look up container names
+}
+
+/**
+ * systemd monitoring configuration
+ * Reports the state of the listed units, or of all failed units when the list is empty
+ */
+export interface SystemdMonitoringConfig {
+  enabled: boolean;            // Include unit states in dynamic status
+  units: string[];             // Units to watch (e.g. 'nginx.service')
+}
+
+/**
+ * Log pattern configuration
+ * Lines matching the regex are counted per collection interval
+ */
+export interface LogPatternConfig {
+  name: string;                // Unique pattern name (e.g. 'nginx_5xx')
+  regex: string;               // Regular expression matched against each line
+  flags?: string;              // Regex flags (e.g. 'i')
+}
+
+/**
+ * Log watch configuration
+ * Tails one log file, following rotation and truncation
+ */
+export interface LogWatchConfig {
+  path: string;                // Log file to tail
+  patterns: LogPatternConfig[]; // Patterns counted in this file
+  sampleLines?: number;        // Report the last N matching lines per pattern (default: 0)
+  maxLineLength?: number;      // Cut sample lines to this many characters (default: 256)
+  redact?: string[];           // Regexes replaced with '[REDACTED]' in sample lines
+}
+
+/**
+ * Metric sampled between reports
+ */
+export type SampledMetric =
+  | 'cpuUsage'
+  | 'memoryUsage'
+  | 'swapUsage'
+  | 'networkUpload'
+  | 'networkDownload'
+  | 'load1';
+
+/**
+ * Retry configuration
+ * After failureThreshold consecutive failures nothing is sent until a backoff delay
+ * (doubling from initialDelay up to maxDelay, with jitter) has passed
+ */
+export interface RetryConfig {
+  initialDelay: string | number; // First backoff delay
+  maxDelay: string | number;   // Upper bound of the backoff delay
+  failureThreshold: number;    // Consecutive failures before sending pauses
+}
+
+/**
+ * TLS configuration for https://, wss:// and mqtts:// servers
+ * File settings are paths to PEM files
+ */
+export interface TlsConfig {
+  ca?: string;                 // CA bundle trusted instead of the system CAs
+  cert?: string;               // Client certificate for mutual TLS
+  key?: string;                // Private key of the client certificate
+  passphrase?: string;         // Passphrase of the private key
+  pinnedPublicKeys: string[];  // Accepted server key hashes ('sha256/<base64>'), empty: no pinning
+  rejectUnauthorized: boolean; // Verify the server certificate
+}
+
+/**
+ * Command a server can send to the client
+ */
+export type RemoteCommandType = 'collectStaticInfo' | 'flushCache' | 'sendDiagnostics';
+
+/**
+ * Remote control configuration
+ * Overrides arrive in report responses or from polling /api/control
+ */
+export interface RemoteControlConfig {
+  enabled: boolean;            // Accept config overrides and commands from the server
+  pollInterval: string | number; // Poll for control messages this often (0: report responses only)
+  allowedKeys: string[];       // Config keys the server may change
+  allowedCommands: RemoteCommandType[]; // Commands the server may run
+}
+
+/**
+ * Sampling configuration
+ * Samples metrics faster than reportInterval and reports min/max/avg/p95 per report window
+ */
+export interface SamplingConfig {
+  enabled: boolean;            // Add an aggregated block to dynamic status
+  interval: string | number;   // Sampling interval (minimum: 1s)
+  metrics: SampledMetric[];    // Metrics to sample
+  maxSamples: number;          // Samples kept per metric and window; older ones are dropped
+}
+
+/**
+ * Alert severity
+ */
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+/**
+ * Alert rule configuration
+ * The expression compares a metric path in dynamic status against a number,
+ * e.g. 'memoryUsage > 90 for 5m' or 'diskUsages[mountpoint=/].usagePercent > 85'
+ */
+export interface AlertRuleConfig {
+  name: string;                // Unique rule name
+  expr: string;                // '<path> <op> <number> [for <duration>]'
+  severity?: AlertSeverity;    // Default: 'warning'
+  for?: string | number;       // How long the condition must hold (e.g. '5m'), overrides 'for' in expr
+  cooldown?: string | number;  // Minimum time between two firing events (e.g. '30m')
+  hysteresis?: number;         // Margin past the threshold required to resolve
+}
+
+/**
+ * Metrics exporter configuration
+ * Serves the latest data as OpenMetrics text on http://<host>:<port>/metrics
+ */
+export interface MetricsExporterConfig {
+  enabled: boolean;            // Start the local HTTP listener
+  host: string;                // Listen address
+  port: number;                // Listen port
+}
+
+/**
+ * Health endpoint configuration
+ * Serves the client's own state on http://<host>:<port>/healthz and /status
+ */
+export interface HealthEndpointConfig {
+  enabled: boolean;            // Start the local HTTP listener
+  host: string;                // Listen address
+  port: number;                // Listen port
+}
+
+/**
+ * Output format of a custom collector command
+ * - number: stdout is a single number
+ * - json: stdout is a JSON object; nested keys are flattened with dots
+ * - nagios: exit code 0-3 (OK/WARNING/CRITICAL/UNKNOWN), stdout 'text | perfdata'
+ */
+export type CustomMetricFormat = 'number' | 'json' | 'nagios';
+
+/**
+ * Custom collector configuration
+ * Runs a command through the shell and reports its output as a custom metric
+ */
+export interface CustomCollectorConfig {
+  name: string;                // Unique metric name
+  command: string;             // Command line, run through the system shell
+  format?: CustomMetricFormat; // Default: 'number'
+  timeout?: string | number;   // Kill the command after this long (default: '10s')
+  interval?: string | number;  // Run at most this often (default: every collection)
+}
+
+/**
+ * Health probe type
+ */
+export type ProbeType = 'http' | 'tcp' | 'process';
+
+/**
+ * Health probe configuration
+ * - http: GET url, expect a status code and optionally a body matching a regex
+ * - tcp: connect to host:port
+ * - process: a process with the given name is running
+ */
+export interface ProbeConfig {
+  name: string;                // Unique probe name
+  type: ProbeType;             // Probe type
+  url?: string;                // URL to GET (http)
+  expectedStatus?: number[];   // Accepted status codes (http, default: 200-399)
+  bodyPattern?: string;        // Regex the response body must match (http)
+  host?: string;               // Host to connect to (tcp)
+  port?: number;               // Port to connect to (tcp)
+  processName?: string;        // Process name to look for (process)
+  timeout?: string | number;   // Give up after this long (default: '5s')
 }
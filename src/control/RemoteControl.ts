@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ControlMessage, RemoteCommand } from './types';
+import { RemoteControlConfig, filterRemoteOverrides } from '../config';
+import { Logger } from '../utils/logger';
+
+/**
+ * Command identifiers remembered to ignore commands the server sends again
+ */
+const MAX_SEEN_COMMANDS = 256;
+
+/**
+ * Persisted remote config state
+ */
+interface RemoteState {
+  revision: string | null;
+  overrides: Record<string, unknown>;
+}
+
+/**
+ * Result of accepting a config update
+ */
+export interface AcceptedUpdate {
+  revision: string;
+  applied: string[]; // Keys now overridden
+  rejected: string[]; // Keys that are not allowed or have invalid values
+}
+
+/**
+ * RemoteControl class
+ * Keeps the config overrides received from the server, persisted so they survive a
+ * restart, and filters control messages through the local whitelist.
+ * Applying the overrides and running commands is up to the caller.
+ */
+export class RemoteControl {
+  private state: RemoteState = { revision: null, overrides: {} };
+  private previousOverrides?: Record<string, unknown>; // In use before the last accepted update
+  private settings: RemoteControlConfig | null = null;
+  private seenCommands = new Set<string>();
+  private logger: Logger;
+
+  /**
+   * Persisted overrides are loaded right away, so they can be layered into the first
+   * configuration load; control messages are ignored until updateSettings() is called
+   */
+  constructor(private statePath: string = path.join('.cache', 'remote-config.json')) {
+    this.logger = new Logger('RemoteControl');
+    this.state = this.loadState();
+  }
+
+  /**
+   * Apply the local remote control settings
+   */
+  updateSettings(settings: RemoteControlConfig): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Get the overrides to layer over the config file
+   */
+  getOverrides(): Record<string, unknown> {
+    return this.state.overrides;
+  }
+
+  /**
+   * Get the revision of the last processed config update, even if it was rejected
+   */
+  getRevision(): string | null {
+    return this.state.revision;
+  }
+
+  /**
+   * Accept the config update of a control message
+   * Allowed overrides replace the previous ones and are persisted
+   * @returns The outcome, or undefined if there is no update or it was already applied
+   */
+  acceptConfig(message: ControlMessage): AcceptedUpdate | undefined {
+    const update = message.config;
+    if (
+      !this.settings?.enabled ||
+      !update ||
+      typeof update.revision !== 'string' ||
+      update.revision === this.state.revision
+    ) {
+      return undefined;
+    }
+
+    const overrides =
+      update.overrides && typeof update.overrides === 'object' && !Array.isArray(update.overrides)
+        ? update.overrides
+        : {};
+    const { accepted, rejected } = filterRemoteOverrides(overrides, this.settings);
+    if (rejected.length > 0) {
+      this.logger.warn(`Ignoring remote overrides not allowed locally: ${rejected.join(', ')}`);
+    }
+
+    this.previousOverrides = this.state.overrides;
+    this.state = { revision: update.revision, overrides: accepted };
+    this.saveState();
+
+    return { revision: update.revision, applied: Object.keys(accepted), rejected };
+  }
+
+  /**
+   * Restore the overrides in use before the last accepted update, when the configuration
+   * it produced was rejected
+   * Its revision is kept, so the same update is not accepted again
+   */
+  rejectConfig(): void {
+    if (!this.previousOverrides) {
+      return;
+    }
+    this.state = { revision: this.state.revision, overrides: this.previousOverrides };
+    this.previousOverrides = undefined;
+    this.saveState();
+  }
+
+  /**
+   * Get the commands of a control message that were not seen before
+   */
+  takeCommands(message: ControlMessage): RemoteCommand[] {
+    if (!this.settings?.enabled || !Array.isArray(message.commands)) {
+      return [];
+    }
+
+    const commands: RemoteCommand[] = [];
+    for (const command of message.commands) {
+      if (!command || typeof command.id !== 'string' || this.seenCommands.has(command.id)) {
+        continue;
+      }
+      this.seenCommands.add(command.id);
+      if (this.seenCommands.size > MAX_SEEN_COMMANDS) {
+        this.seenCommands.delete(this.seenCommands.values().next().value as string);
+      }
+      commands.push(command);
+    }
+    return commands;
+  }
+
+  /**
+   * Check whether the local settings allow a command
+   */
+  isCommandAllowed(command: RemoteCommand): boolean {
+    return this.settings?.enabled === true && this.settings.allowedCommands.includes(command.type);
+  }
+
+  private loadState(): RemoteState {
+    try {
+      if (fs.existsSync(this.statePath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.statePath, 'utf-8'));
+        if (parsed && typeof parsed.overrides === 'object') {
+          return {
+            revision: typeof parsed.revision === 'string' ? parsed.revision : null,
+            overrides: parsed.overrides ?? {},
+          };
+        }
+      }
+    } catch (error) {
+      this.logger.error('Failed to load remote config overrides, ignoring them', error);
+    }
+    return { revision: null, overrides: {} };
+  }
+
+  /**
+   * Persist the overrides
+   * Written to a temporary file and renamed, so a crash never leaves a partial file
+   */
+  private saveState(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.statePath), { recursive: true });
+      const tempPath = `${this.statePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(this.state, null, 2), 'utf-8');
+      fs.renameSync(tempPath, this.statePath);
+    } catch (error) {
+      this.logger.error('Failed to save remote config overrides', error);
+    }
+  }
+}
@@ -0,0 +1,10 @@
+export { RemoteControl, AcceptedUpdate } from './RemoteControl';
+export {
+  RemoteConfigUpdate,
+  RemoteCommand,
+  ControlMessage,
+  CommandResult,
+  ControlAck,
+  ControlPoll,
+  DiagnosticsPayload,
+} from './types';
@@ -0,0 +1,81 @@
+import { RemoteCommandType } from '../config';
+import { DestinationStatus } from '../reporter/types';
+
+/**
+ * Config overrides sent by the server
+ * Each update replaces the previous set of overrides
+ */
+export interface RemoteConfigUpdate {
+  revision: string; // Opaque revision, acknowledged back to the server
+  overrides: Record<string, unknown>; // Config keys and their values
+}
+
+/**
+ * One-shot command sent by the server
+ */
+export interface RemoteCommand {
+  id: string; // Unique command identifier
+  type: RemoteCommandType; // What to do
+}
+
+/**
+ * Control message
+ * Sent as the "control" field of a report response or as the answer to a poll
+ */
+export interface ControlMessage {
+  config?: RemoteConfigUpdate;
+  commands?: RemoteCommand[];
+}
+
+/**
+ * Outcome of a remote command
+ */
+export interface CommandResult {
+  id: string;
+  type: string;
+  status: 'done' | 'failed' | 'rejected';
+  error?: string; // Why the command failed or was rejected
+}
+
+/**
+ * Acknowledgement of a control message
+ */
+export interface ControlAck {
+  clientId: string; // Client unique identifier (UUID)
+  config?: {
+    revision: string; // Revision that was processed
+    applied: string[]; // Keys now overridden
+    rejected: string[]; // Keys that are not allowed or have invalid values
+    error?: string; // Why none were applied: the resulting configuration was rejected
+  };
+  commands: CommandResult[];
+}
+
+/**
+ * Control poll request
+ */
+export interface ControlPoll {
+  clientId: string; // Client unique identifier (UUID)
+  configRevision: string | null; // Revision of the last processed config update, if any
+}
+
+/**
+ * Diagnostics sent for a sendDiagnostics command
+ */
+export interface DiagnosticsPayload {
+  clientId: string; // Client unique identifier (UUID)
+  hostname: string; // System hostname
+  commandId: string; // Command that requested the diagnostics
+  timestamp: number; // When the diagnostics were taken (Unix milliseconds)
+  diagnostics: {
+    nodeVersion: string;
+    platform: string;
+    uptime: number; // Client process uptime in seconds
+    memoryRss: number; // Client process resident memory in bytes
+    config: Record<string, unknown>; // Effective configuration, secrets masked
+    configRevision: string | null; // Revision of the last processed config update
+    cacheSize: number; // Cached entries
+    destinations: DestinationStatus[]; // Circuit state and queue of every destination
+    staticInfoHash: string | null;
+  };
+}
@@ -0,0 +1,104 @@
+import * as http from 'http';
+import { formatOpenMetrics, ClientLabels, OPENMETRICS_CONTENT_TYPE } from './openmetrics';
+import { StaticSystemInfo, DynamicSystemStatus } from '../collector';
+import { Logger } from '../utils/logger';
+
+/**
+ * MetricsExporter class
+ * Serves the latest collected data as OpenMetrics text on /metrics
+ */
+export class MetricsExporter {
+  private server: http.Server | null = null;
+  private staticInfo: StaticSystemInfo | null = null;
+  private dynamicStatus: DynamicSystemStatus | null = null;
+  private logger: Logger;
+
+  constructor(
+    private client: ClientLabels,
+    private host: string,
+    private port: number
+  ) {
+    this.logger = new Logger('MetricsExporter');
+  }
+
+  /**
+   * Replace the identity labels, e.g. after a config reload
+   */
+  setClientLabels(client: ClientLabels): void {
+    this.client = client;
+  }
+
+  /**
+   * Set static system information
+   */
+  setStaticInfo(staticInfo: StaticSystemInfo): void {
+    this.staticInfo = staticInfo;
+  }
+
+  /**
+   * Update the latest dynamic system status
+   */
+  update(dynamicStatus: DynamicSystemStatus): void {
+    this.dynamicStatus = dynamicStatus;
+  }
+
+  /**
+   * Start listening for scrape requests
+   */
+  start(): Promise<void> {
+    if (this.server) {
+      return Promise.resolve();
+    }
+
+    const server = http.createServer((req, res) => this.handleRequest(req, res));
+    this.server = server;
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.host, () => {
+        server.off('error', reject);
+        this.logger.info(`Serving metrics on http://${this.host}:${this.port}/metrics`);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Stop listening
+   */
+  stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => server.close(() => resolve()));
+  }
+
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const url = (req.url || '/').split('?')[0];
+
+    if (req.method !== 'GET' || url !== '/metrics') {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not Found\n');
+      return;
+    }
+
+    if (!this.staticInfo && !this.dynamicStatus) {
+      res.writeHead(503, { 'Content-Type': 'text/plain' });
+      res.end('No data collected yet\n');
+      return;
+    }
+
+    try {
+      const body = formatOpenMetrics(this.client, this.staticInfo, this.dynamicStatus);
+      res.writeHead(200, { 'Content-Type': OPENMETRICS_CONTENT_TYPE });
+      res.end(body);
+    } catch (error) {
+      this.logger.error('Failed to format metrics', error);
+      res.writeHead(500, { 'Content-Type': 'text/plain' });
+      res.end('Internal Server Error\n');
+    }
+  }
+}
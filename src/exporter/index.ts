@@ -0,0 +1,2 @@
+export { MetricsExporter } from './MetricsExporter';
+export { formatOpenMetrics, ClientLabels, OPENMETRICS_CONTENT_TYPE } from './openmetrics';
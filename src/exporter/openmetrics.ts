@@ -0,0 +1,309 @@
+import { StaticSystemInfo, DynamicSystemStatus } from '../collector';
+
+/**
+ * OpenMetrics content type served on /metrics
+ */
+export const OPENMETRICS_CONTENT_TYPE =
+  'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+const PREFIX = 'status_client';
+
+type Labels = Record<string, string>;
+
+interface Sample {
+  labels: Labels;
+  value: number;
+}
+
+interface MetricFamily {
+  name: string;
+  type: 'gauge' | 'counter' | 'info';
+  help: string;
+  samples: Sample[];
+}
+
+/**
+ * Identity labels attached to every sample
+ */
+export interface ClientLabels {
+  clientName: string;
+  clientTags: string[];
+}
+
+/**
+ * Escape a label value per the OpenMetrics text format
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabelValue(v)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/**
+ * Render metric families as OpenMetrics text
+ * Counter samples get the _total suffix and info samples the _info suffix
+ */
+function render(families: MetricFamily[]): string {
+  const lines: string[] = [];
+
+  for (const family of families) {
+    if (family.samples.length === 0) {
+      continue;
+    }
+
+    const name = `${PREFIX}_${family.name}`;
+    const suffix = family.type === 'counter' ? '_total' : family.type === 'info' ? '_info' : '';
+    lines.push(`# TYPE ${name} ${family.type}`);
+    lines.push(`# HELP ${name} ${family.help}`);
+    for (const sample of family.samples) {
+      lines.push(`${name}${suffix}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+    }
+  }
+
+  lines.push('# EOF');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Format the latest static info and dynamic status as OpenMetrics text
+ * @param client Client identity labels
+ * @param staticInfo Static system information (info-style metrics)
+ * @param status Latest dynamic system status, if collected yet
+ * @returns OpenMetrics exposition text
+ */
+export function formatOpenMetrics(
+  client: ClientLabels,
+  staticInfo: StaticSystemInfo | null,
+  status: DynamicSystemStatus | null
+): string {
+  const base: Labels = {
+    client_name: client.clientName,
+    client_tags: client.clientTags.join(','),
+  };
+  const one = (value: number, labels: Labels = {}): Sample[] => [
+    { labels: { ...base, ...labels }, value },
+  ];
+  const families: MetricFamily[] = [];
+  const gauge = (name: string, help: string, samples: Sample[]) =>
+    families.push({ name, type: 'gauge', help, samples });
+
+  if (staticInfo) {
+    families.push({
+      name: 'system',
+      type: 'info',
+      help: 'Static system information.',
+      samples: one(1, {
+        cpu_model: staticInfo.cpuModel,
+        cpu_arch: staticInfo.cpuArch,
+        system_version: staticInfo.systemVersion,
+        system_model: staticInfo.systemModel,
+        location: staticInfo.location,
+      }),
+    });
+    families.push({
+      name: 'disk',
+      type: 'info',
+      help: 'Physical disk information.',
+      samples: staticInfo.disks.map((disk) => ({
+        labels: {
+          ...base,
+          device: disk.device,
+          type: disk.type,
+          interface_type: disk.interfaceType || '',
+        },
+        value: 1,
+      })),
+    });
+    gauge('cpu_cores', 'Number of CPU cores.', one(staticInfo.cpuCores));
+    gauge('memory_total_bytes', 'Total memory in bytes.', one(staticInfo.totalMemory));
+    gauge('swap_total_bytes', 'Total swap space in bytes.', one(staticInfo.totalSwap));
+    gauge('disk_total_bytes', 'Total disk capacity in bytes.', one(staticInfo.totalDisk));
+    gauge(
+      'disk_size_bytes',
+      'Physical disk size in bytes.',
+      staticInfo.disks.map((disk) => ({
+        labels: { ...base, device: disk.device },
+        value: disk.size,
+      }))
+    );
+  }
+
+  if (status) {
+    gauge('cpu_usage_percent', 'Overall CPU usage percentage.', one(status.cpuUsage));
+    gauge('cpu_frequency_ghz', 'Current CPU frequency in GHz.', one(status.cpuFrequency));
+    gauge('memory_usage_percent', 'Memory usage percentage.', one(status.memoryUsage));
+    gauge('swap_usage_percent', 'Swap usage percentage.', one(status.swapUsage));
+    gauge('disk_usage_percent', 'Overall disk usage percentage.', one(status.diskUsage));
+    gauge(
+      'network_upload_bytes_per_second',
+      'Upload rate summed over interfaces that are up.',
+      one(status.networkUpload)
+    );
+    gauge(
+      'network_download_bytes_per_second',
+      'Download rate summed over interfaces that are up.',
+      one(status.networkDownload)
+    );
+
+    const fsLabels = (device: string, mountpoint?: string): Labels => ({
+      ...base,
+      device,
+      mountpoint: mountpoint || '',
+    });
+    gauge(
+      'filesystem_size_bytes',
+      'Filesystem size in bytes.',
+      status.diskUsages.map((d) => ({ labels: fsLabels(d.device, d.mountpoint), value: d.size }))
+    );
+    gauge(
+      'filesystem_used_bytes',
+      'Filesystem used space in bytes.',
+      status.diskUsages.map((d) => ({ labels: fsLabels(d.device, d.mountpoint), value: d.used }))
+    );
+    gauge(
+      'filesystem_available_bytes',
+      'Filesystem available space in bytes.',
+      status.diskUsages.map((d) => ({
+        labels: fsLabels(d.device, d.mountpoint),
+        value: d.available,
+      }))
+    );
+    gauge(
+      'filesystem_usage_percent',
+      'Filesystem usage percentage.',
+      status.diskUsages.map((d) => ({
+        labels: fsLabels(d.device, d.mountpoint),
+        value: d.usagePercent,
+      }))
+    );
+
+    if (status.cpuBreakdown) {
+      const breakdown = status.cpuBreakdown;
+      gauge(
+        'cpu_time_percent',
+        'Share of CPU time per state.',
+        (Object.keys(breakdown) as (keyof typeof breakdown)[])
+          .filter((mode) => breakdown[mode] !== undefined)
+          .map((mode) => ({ labels: { ...base, mode }, value: breakdown[mode] as number }))
+      );
+    }
+    if (status.cpuCores) {
+      gauge(
+        'cpu_core_usage_percent',
+        'Per-core CPU usage percentage.',
+        status.cpuCores.map((c) => ({ labels: { ...base, core: String(c.core) }, value: c.usage }))
+      );
+    }
+    if (status.loadAverage) {
+      gauge('load1', '1 minute load average.', one(status.loadAverage.load1));
+      gauge('load5', '5 minute load average.', one(status.loadAverage.load5));
+      gauge('load15', '15 minute load average.', one(status.loadAverage.load15));
+    }
+    if (status.uptime !== undefined) {
+      gauge('uptime_seconds', 'System uptime in seconds.', one(status.uptime));
+    }
+    if (status.interruptsPerSecond !== undefined) {
+      gauge('interrupts_per_second', 'Interrupt rate.', one(status.interruptsPerSecond));
+    }
+    if (status.contextSwitchesPerSecond !== undefined) {
+      gauge(
+        'context_switches_per_second',
+        'Context switch rate.',
+        one(status.contextSwitchesPerSecond)
+      );
+    }
+
+    if (status.networkInterfaces) {
+      const ifaces = status.networkInterfaces;
+      const ifLabels = (iface: string): Labels => ({ ...base, interface: iface });
+      gauge(
+        'network_up',
+        'Whether the interface is up.',
+        ifaces.map((i) => ({ labels: ifLabels(i.iface), value: i.operstate === 'up' ? 1 : 0 }))
+      );
+      gauge(
+        'network_speed_mbps',
+        'Interface link speed in Mbit/s.',
+        ifaces
+          .filter((i) => i.speed !== undefined)
+          .map((i) => ({ labels: ifLabels(i.iface), value: i.speed as number }))
+      );
+      gauge(
+        'network_receive_bytes_per_second',
+        'Per-interface receive rate.',
+        ifaces.map((i) => ({ labels: ifLabels(i.iface), value: i.rxRate }))
+      );
+      gauge(
+        'network_transmit_bytes_per_second',
+        'Per-interface transmit rate.',
+        ifaces.map((i) => ({ labels: ifLabels(i.iface), value: i.txRate }))
+      );
+      const counter = (name: string, help: string, pick: (i: (typeof ifaces)[0]) => number) =>
+        families.push({
+          name,
+          type: 'counter',
+          help,
+          samples: ifaces.map((i) => ({ labels: ifLabels(i.iface), value: pick(i) })),
+        });
+      counter('network_receive_bytes', 'Bytes received.', (i) => i.rxBytes);
+      counter('network_transmit_bytes', 'Bytes transmitted.', (i) => i.txBytes);
+      counter('network_receive_errors', 'Receive errors.', (i) => i.rxErrors);
+      counter('network_transmit_errors', 'Transmit errors.', (i) => i.txErrors);
+      counter('network_receive_drops', 'Dropped incoming packets.', (i) => i.rxDropped);
+      counter('network_transmit_drops', 'Dropped outgoing packets.', (i) => i.txDropped);
+    }
+
+    if (status.diskIo) {
+      const devices = status.diskIo;
+      const devLabels = (device: string): Labels => ({ ...base, device });
+      gauge(
+        'disk_read_bytes_per_second',
+        'Disk read throughput.',
+        devices.map((d) => ({ labels: devLabels(d.device), value: d.readBytesPerSec }))
+      );
+      gauge(
+        'disk_write_bytes_per_second',
+        'Disk write throughput.',
+        devices.map((d) => ({ labels: devLabels(d.device), value: d.writeBytesPerSec }))
+      );
+      gauge(
+        'disk_read_iops',
+        'Completed disk reads per second.',
+        devices.map((d) => ({ labels: devLabels(d.device), value: d.readIops }))
+      );
+      gauge(
+        'disk_write_iops',
+        'Completed disk writes per second.',
+        devices.map((d) => ({ labels: devLabels(d.device), value: d.writeIops }))
+      );
+      gauge(
+        'disk_utilization_percent',
+        'Share of time the disk was busy.',
+        devices.map((d) => ({ labels: devLabels(d.device), value: d.utilization }))
+      );
+      gauge(
+        'disk_await_milliseconds',
+        'Average time per completed disk I/O.',
+        devices.map((d) => ({ labels: devLabels(d.device), value: d.awaitMs }))
+      );
+    }
+
+    gauge(
+      'last_collection_timestamp_seconds',
+      'Time of the last collection.',
+      one(status.timestamp / 1000)
+    );
+  }
+
+  return render(families);
+}
@@ -0,0 +1,109 @@
+import { AgentHealth, AgentState } from './types';
+import { getVersion } from '../utils/version';
+
+/**
+ * A collection is overdue after this many report intervals
+ */
+const STALL_INTERVALS = 3;
+
+/**
+ * AgentHealthTracker class
+ * Records collections and report outcomes, and derives the client's own health
+ */
+export class AgentHealthTracker {
+  private running = false;
+  private startedAt = Date.now();
+  private lastCollectionAt: number | null = null;
+  private lastCollectionMs: number | null = null;
+  private collectorDurations: Record<string, number> = {};
+  private lastReportAt: number | null = null;
+  private consecutiveFailures = 0;
+  private lastError: string | undefined;
+
+  /**
+   * @param reportInterval Report interval in milliseconds, to detect a stalled client
+   */
+  constructor(private reportInterval: number) {}
+
+  /**
+   * Apply a new report interval
+   */
+  setReportInterval(reportInterval: number): void {
+    this.reportInterval = reportInterval;
+  }
+
+  /**
+   * Mark the client as started or stopped
+   * The first collection is due within the stall limit after starting
+   */
+  setRunning(running: boolean, now: number = Date.now()): void {
+    this.running = running;
+    if (running) {
+      this.startedAt = now;
+    }
+  }
+
+  /**
+   * Record a finished collection
+   * @param durationMs Duration of the whole collection
+   * @param collectorDurations Duration of each sub-collector
+   */
+  recordCollection(
+    durationMs: number,
+    collectorDurations: Record<string, number>,
+    now: number = Date.now()
+  ): void {
+    this.lastCollectionAt = now;
+    this.lastCollectionMs = Math.round(durationMs);
+    this.collectorDurations = collectorDurations;
+  }
+
+  /**
+   * Record a report every destination accepted
+   */
+  recordReportSuccess(now: number = Date.now()): void {
+    this.lastReportAt = now;
+    this.consecutiveFailures = 0;
+    this.lastError = undefined;
+  }
+
+  /**
+   * Record a report that was not accepted
+   */
+  recordReportFailure(error: unknown): void {
+    this.consecutiveFailures++;
+    this.lastError = error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * Get the current health
+   * @param cachedReports Entries waiting in the offline queues
+   */
+  getHealth(cachedReports: number, now: number = Date.now()): AgentHealth {
+    return {
+      state: this.getState(now),
+      version: getVersion(),
+      running: this.running,
+      uptime: Math.round(process.uptime()),
+      lastCollectionAt: this.lastCollectionAt,
+      lastCollectionMs: this.lastCollectionMs,
+      collectorDurations: this.collectorDurations,
+      lastReportAt: this.lastReportAt,
+      consecutiveFailures: this.consecutiveFailures,
+      lastError: this.lastError,
+      cachedReports,
+      memoryRss: process.memoryUsage().rss,
+    };
+  }
+
+  private getState(now: number): AgentState {
+    if (!this.running) {
+      return 'stopped';
+    }
+    const lastActivity = Math.max(this.lastCollectionAt ?? 0, this.startedAt);
+    if (now - lastActivity > STALL_INTERVALS * this.reportInterval) {
+      return 'stalled';
+    }
+    return this.consecutiveFailures > 0 ? 'degraded' : 'ok';
+  }
+}
@@ -0,0 +1,82 @@
+import * as http from 'http';
+import { AgentHealth } from './types';
+import { Logger } from '../utils/logger';
+
+/**
+ * HealthServer class
+ * Serves the client's own health: /healthz answers 200 while the client is collecting
+ * (ok or degraded) and 503 when it is stalled or stopped; /status returns the full
+ * self-metrics as JSON
+ */
+export class HealthServer {
+  private server: http.Server | null = null;
+  private logger: Logger;
+
+  constructor(
+    private getHealth: () => AgentHealth,
+    private host: string,
+    private port: number
+  ) {
+    this.logger = new Logger('HealthServer');
+  }
+
+  /**
+   * Start listening
+   */
+  start(): Promise<void> {
+    if (this.server) {
+      return Promise.resolve();
+    }
+
+    const server = http.createServer((req, res) => this.handleRequest(req, res));
+    this.server = server;
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.host, () => {
+        server.off('error', reject);
+        this.logger.info(`Serving health on http://${this.host}:${this.port}/healthz and /status`);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Stop listening
+   */
+  stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => server.close(() => resolve()));
+  }
+
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const url = (req.url || '/').split('?')[0];
+
+    if (req.method !== 'GET' || (url !== '/healthz' && url !== '/status')) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not Found\n');
+      return;
+    }
+
+    try {
+      const health = this.getHealth();
+      if (url === '/status') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(health, null, 2) + '\n');
+        return;
+      }
+      const healthy = health.state === 'ok' || health.state === 'degraded';
+      res.writeHead(healthy ? 200 : 503, { 'Content-Type': 'text/plain' });
+      res.end(`${health.state}\n`);
+    } catch (error) {
+      this.logger.error('Failed to get client health', error);
+      res.writeHead(500, { 'Content-Type': 'text/plain' });
+      res.end('Internal Server Error\n');
+    }
+  }
+}
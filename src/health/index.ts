@@ -0,0 +1,3 @@
+export { AgentHealthTracker } from './AgentHealthTracker';
+export { HealthServer } from './HealthServer';
+export { AgentHealth, AgentState } from './types';
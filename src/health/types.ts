@@ -0,0 +1,27 @@
+/**
+ * Overall state of the client
+ * - ok: collecting and reporting
+ * - degraded: collecting, but the latest report was not accepted
+ * - stalled: no collection finished within three report intervals
+ * - stopped: the client is not running
+ */
+export type AgentState = 'ok' | 'degraded' | 'stalled' | 'stopped';
+
+/**
+ * Self-metrics of the client
+ * Served on /status and sent with every report
+ */
+export interface AgentHealth {
+  state: AgentState; // Overall state
+  version: string; // Client version
+  running: boolean; // The reporting loop is running
+  uptime: number; // Client process uptime in seconds
+  lastCollectionAt: number | null; // When the last collection finished (Unix milliseconds)
+  lastCollectionMs: number | null; // Duration of the last collection in milliseconds
+  collectorDurations: Record<string, number>; // Duration of each sub-collector in the last collection
+  lastReportAt: number | null; // When the last report was accepted (Unix milliseconds)
+  consecutiveFailures: number; // Reports not accepted since then
+  lastError?: string; // Why the last report was not accepted
+  cachedReports: number; // Entries waiting in the offline queues
+  memoryRss: number; // Client process resident memory in bytes
+}
@@ -2,33 +2,145 @@
  * Main entry point for the system monitor client
  */
 
-import { ConfigManager } from './config';
-import { SystemCollector } from './collector';
-import { Reporter } from './reporter';
+import * as os from 'os';
+
+import {
+  ConfigManager,
+  ClientConfig,
+  ConfigValidationError,
+  diffConfig,
+  parseCliArgs,
+  readEnvConfig,
+  resolveDestinations,
+} from './config';
+import { SystemCollector, StaticSystemInfo, MetricSampler, diffStaticInfo } from './collector';
+import { Reporter, ReportPayload, CircuitOpenError, hashStaticInfo } from './reporter';
+import { AlertEvaluator, AlertPayload } from './alerts';
+import { MetricsExporter } from './exporter';
+import { ProbeRunner } from './probes';
+import { AgentHealth, AgentHealthTracker, HealthServer } from './health';
+import {
+  RemoteControl,
+  ControlMessage,
+  RemoteCommand,
+  CommandResult,
+  ControlAck,
+  DiagnosticsPayload,
+} from './control';
+import { DynamicSystemStatus } from './collector';
+import { Command, ExitCode, USAGE, clientLockPath, parseCommand, runCommand } from './cli';
 import { Logger } from './utils/logger';
+import { parseDuration } from './utils/duration';
+import { LockError, acquireLock } from './utils/lock';
+
+/**
+ * Directory holding the client ID, the offline queues and the lock file
+ */
+const CACHE_DIR = '.cache';
+
+/**
+ * MonitorClient options
+ */
+interface MonitorClientOptions {
+  readOnlyCache?: boolean; // Load the offline queues without ever writing them
+  persistLogOffsets?: boolean; // Save log watch positions (default true)
+}
 
 /**
  * MonitorClient class
  * Main client program that orchestrates collection and reporting
  */
 class MonitorClient {
-  private config: ReturnType<ConfigManager['loadConfig']>;
+  private config: ClientConfig;
+  private configManager: ConfigManager;
   private collector: SystemCollector;
   private reporter: Reporter;
+  private alertEvaluator: AlertEvaluator;
+  private probeRunner: ProbeRunner;
+  private sampler: MetricSampler | null = null;
+  private metricsExporter: MetricsExporter | null = null;
+  private health: AgentHealthTracker;
+  private healthServer: HealthServer | null = null;
+  private staticInfo: StaticSystemInfo | null = null;
+  private stopWatchingConfig: (() => void) | null = null;
   private intervalId: NodeJS.Timeout | null = null;
+  private staticInfoTimer: NodeJS.Timeout | null = null;
+  private remoteControl: RemoteControl;
+  private controlTimer: NodeJS.Timeout | null = null;
+  private refreshingStaticInfo = false;
   private isRunning: boolean = false;
   private logger: Logger;
 
-  constructor() {
+  constructor(
+    configManager: ConfigManager = new ConfigManager(),
+    options: MonitorClientOptions = {}
+  ) {
     this.logger = new Logger('MonitorClient');
 
-    // Load configuration
-    const configManager = new ConfigManager();
-    this.config = configManager.loadConfig();
+    // Load configuration, with the overrides the server sent before the last restart
+    this.configManager = configManager;
+    this.remoteControl = new RemoteControl();
+    this.configManager.setRemoteOverrides(this.remoteControl.getOverrides());
+    this.config = this.configManager.loadConfig();
+    this.remoteControl.updateSettings(this.config.remoteControl);
 
     // Initialize collector and reporter
-    this.collector = new SystemCollector(this.config);
-    this.reporter = new Reporter(this.config);
+    this.collector = new SystemCollector(this.config, {
+      persistLogOffsets: options.persistLogOffsets,
+    });
+    this.reporter = new Reporter(this.config, CACHE_DIR, { readOnly: options.readOnlyCache });
+    this.reporter.onControlMessage((message) => {
+      this.handleControlMessage(message).catch((error) => {
+        this.logger.error('Failed to handle control message', error);
+      });
+    });
+    this.alertEvaluator = new AlertEvaluator(this.config.alertRules);
+    this.probeRunner = new ProbeRunner(this.config.probes);
+
+    this.metricsExporter = this.createMetricsExporter(this.config);
+    this.sampler = this.createSampler(this.config);
+
+    this.health = new AgentHealthTracker(this.config.reportInterval);
+    this.healthServer = this.createHealthServer(this.config);
+  }
+
+  /**
+   * Create the metric sampler if enabled in the configuration
+   */
+  private createSampler(config: ClientConfig): MetricSampler | null {
+    if (!config.sampling.enabled) {
+      return null;
+    }
+    try {
+      return new MetricSampler(config.sampling);
+    } catch (error) {
+      this.logger.error('Invalid sampling configuration, sampling disabled', error);
+      return null;
+    }
+  }
+
+  /**
+   * Create the metrics exporter if enabled in the configuration
+   */
+  private createMetricsExporter(config: ClientConfig): MetricsExporter | null {
+    if (!config.metricsExporter.enabled) {
+      return null;
+    }
+    return new MetricsExporter(config, config.metricsExporter.host, config.metricsExporter.port);
+  }
+
+  /**
+   * Create the health endpoint if enabled in the configuration
+   */
+  private createHealthServer(config: ClientConfig): HealthServer | null {
+    if (!config.healthEndpoint.enabled) {
+      return null;
+    }
+    return new HealthServer(
+      () => this.getHealth(),
+      config.healthEndpoint.host,
+      config.healthEndpoint.port
+    );
   }
 
   /**
@@ -42,30 +154,72 @@ class MonitorClient {
 
     this.logger.info('Starting System Monitor Client...');
     this.logger.info(`Client Name: ${this.config.clientName}`);
-    this.logger.info(`Server URL: ${this.config.serverUrl}`);
+    if (!this.config.pushEnabled) {
+      this.logger.info('Server URL: Disabled (push reporting off)');
+    } else if (this.config.destinations.length > 0) {
+      const destinations = resolveDestinations(this.config).map(
+        (destination) => `${destination.name} (${destination.url}, ${destination.mode})`
+      );
+      this.logger.info(`Destinations: ${destinations.join(', ')}`);
+    } else {
+      this.logger.info(`Server URL: ${this.config.serverUrl}`);
+    }
     this.logger.info(`Report Interval: ${this.config.reportInterval}ms`);
     this.logger.info(`Tags: ${this.config.clientTags.join(', ') || 'None'}`);
     this.logger.info(`Purpose: ${this.config.clientPurpose || 'Not specified'}`);
+    this.logger.info(`Alert Rules: ${this.alertEvaluator.getRuleCount()}`);
+    this.logger.info(`Health Probes: ${this.probeRunner.getProbeCount()}`);
+    this.logger.info(
+      `Sampling: ${this.sampler ? `every ${this.sampler.getInterval()}ms` : 'Disabled'}`
+    );
 
     try {
+      // Serve health first, so a startup that hangs shows up as stalled
+      this.health.setRunning(true);
+      if (this.healthServer) {
+        await this.healthServer.start();
+      }
+
       // Collect static system information at startup
       this.logger.info('Collecting static system information...');
       const staticInfo = await this.collector.collectStaticInfo();
+      this.staticInfo = staticInfo;
       this.reporter.setStaticInfo(staticInfo);
+      this.metricsExporter?.setStaticInfo(staticInfo);
       this.logger.info('Static system information collected successfully');
 
+      // Start the local metrics endpoint if enabled
+      if (this.metricsExporter) {
+        await this.metricsExporter.start();
+      }
+
       // Try to send any cached reports from previous runs
-      this.logger.info('Checking for cached reports...');
-      await this.reporter.retryCachedReports();
+      if (this.config.pushEnabled) {
+        this.logger.info('Checking for cached reports...');
+        await this.reporter.retryCachedReports();
+      }
 
       // Mark as running
       this.isRunning = true;
 
+      // Sample between reports
+      this.sampler?.start();
+
       // Start the periodic collection and reporting loop
       this.startReportingLoop();
 
+      // Re-collect static info on a slower schedule
+      this.scheduleStaticInfoRefresh();
+
+      // Ask the server for config overrides and commands between reports
+      this.scheduleControlPolling();
+
+      // Reload the configuration whenever the file changes
+      this.watchConfigFile();
+
       this.logger.info('System Monitor Client started successfully');
     } catch (error) {
+      this.health.setRunning(false);
       this.logger.error('Failed to start client', error);
       throw error;
     }
@@ -85,6 +239,342 @@ class MonitorClient {
     }, this.config.reportInterval);
   }
 
+  /**
+   * (Re)start the static info refresh timer
+   * A staticInfoRefreshInterval of 0 disables the refresh
+   */
+  private scheduleStaticInfoRefresh(): void {
+    if (this.staticInfoTimer) {
+      clearInterval(this.staticInfoTimer);
+      this.staticInfoTimer = null;
+    }
+
+    let interval: number;
+    try {
+      interval = parseDuration(this.config.staticInfoRefreshInterval);
+    } catch (error) {
+      this.logger.error('Invalid staticInfoRefreshInterval, static info refresh disabled', error);
+      return;
+    }
+    if (interval <= 0) {
+      return;
+    }
+
+    this.staticInfoTimer = setInterval(() => {
+      this.refreshStaticInfo();
+    }, interval);
+  }
+
+  /**
+   * Collect static info again and apply any changes
+   * Changes are logged, attached to the next report and sent as a staticInfoChanged event
+   */
+  private async refreshStaticInfo(): Promise<void> {
+    if (this.refreshingStaticInfo || !this.staticInfo) {
+      return;
+    }
+    this.refreshingStaticInfo = true;
+
+    try {
+      const next = await this.collector.collectStaticInfo();
+      const changes = diffStaticInfo(this.staticInfo, next);
+      if (changes.length === 0) {
+        return;
+      }
+
+      for (const change of changes) {
+        this.logger.info(`Static info changed - ${change.description}`);
+      }
+
+      const previousHash = hashStaticInfo(this.staticInfo);
+      this.staticInfo = next;
+      this.reporter.setStaticInfo(next);
+      this.metricsExporter?.setStaticInfo(next);
+
+      if (!this.config.pushEnabled) {
+        return;
+      }
+      try {
+        await this.reporter.reportEvent(
+          this.reporter.buildEventPayload({
+            type: 'staticInfoChanged',
+            changes,
+            previousHash,
+            currentHash: hashStaticInfo(next),
+            timestamp: Date.now(),
+          })
+        );
+      } catch {
+        // Already logged and cached by the reporter
+      }
+    } catch (error) {
+      this.logger.error('Failed to refresh static system information', error);
+    } finally {
+      this.refreshingStaticInfo = false;
+    }
+  }
+
+  /**
+   * (Re)start polling for control messages
+   * Only when remote control is enabled and remoteControl.pollInterval is not 0
+   */
+  private scheduleControlPolling(): void {
+    if (this.controlTimer) {
+      clearInterval(this.controlTimer);
+      this.controlTimer = null;
+    }
+    if (!this.config.remoteControl.enabled || !this.config.pushEnabled) {
+      return;
+    }
+
+    let interval: number;
+    try {
+      interval = parseDuration(this.config.remoteControl.pollInterval);
+    } catch (error) {
+      this.logger.error('Invalid remoteControl.pollInterval, polling disabled', error);
+      return;
+    }
+    if (interval <= 0) {
+      return;
+    }
+
+    this.controlTimer = setInterval(() => {
+      this.pollControl();
+    }, interval);
+  }
+
+  /**
+   * Poll the server for a control message and handle it
+   */
+  private async pollControl(): Promise<void> {
+    try {
+      const message = await this.reporter.pollControl(this.remoteControl.getRevision());
+      if (message) {
+        await this.handleControlMessage(message);
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to poll for control messages: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  /**
+   * Apply config overrides and run commands sent by the server, then acknowledge them
+   * The local remoteControl settings decide which keys and commands are accepted
+   */
+  private async handleControlMessage(message: ControlMessage): Promise<void> {
+    let update: ControlAck['config'] = this.remoteControl.acceptConfig(message);
+    if (update) {
+      this.logger.info(
+        `Remote config revision ${update.revision} received, overriding: ` +
+          (update.applied.join(', ') || 'nothing')
+      );
+      this.configManager.setRemoteOverrides(this.remoteControl.getOverrides());
+      const error = await this.reloadConfig();
+      if (error) {
+        // The current configuration keeps running, so go back to the overrides it uses
+        this.remoteControl.rejectConfig();
+        this.configManager.setRemoteOverrides(this.remoteControl.getOverrides());
+        update = {
+          revision: update.revision,
+          applied: [],
+          rejected: [...update.applied, ...update.rejected],
+          error,
+        };
+      }
+    }
+
+    const results: CommandResult[] = [];
+    for (const command of this.remoteControl.takeCommands(message)) {
+      results.push(await this.runCommand(command));
+    }
+
+    if (!update && results.length === 0) {
+      return;
+    }
+    try {
+      await this.reporter.sendControlAck({ config: update, commands: results });
+    } catch (error) {
+      this.logger.error('Failed to acknowledge control message', error);
+    }
+  }
+
+  /**
+   * Run a one-shot command sent by the server
+   */
+  private async runCommand(command: RemoteCommand): Promise<CommandResult> {
+    const result = { id: command.id, type: String(command.type) };
+    if (!this.remoteControl.isCommandAllowed(command)) {
+      this.logger.warn(`Rejected remote command ${command.type}`);
+      return { ...result, status: 'rejected', error: 'command not allowed' };
+    }
+
+    this.logger.info(`Running remote command ${command.type}`);
+    try {
+      switch (command.type) {
+        case 'collectStaticInfo':
+          await this.refreshStaticInfo();
+          break;
+        case 'flushCache':
+          await this.reporter.retryCachedReports();
+          break;
+        case 'sendDiagnostics':
+          await this.reporter.sendDiagnostics(this.buildDiagnostics(command.id));
+          break;
+      }
+      return { ...result, status: 'done' };
+    } catch (error) {
+      this.logger.error(`Remote command ${command.type} failed`, error);
+      return {
+        ...result,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Build the diagnostics sent for a sendDiagnostics command
+   */
+  private buildDiagnostics(commandId: string): DiagnosticsPayload {
+    return {
+      clientId: this.reporter.getClientId(),
+      hostname: os.hostname(),
+      commandId,
+      timestamp: Date.now(),
+      diagnostics: {
+        nodeVersion: process.version,
+        platform: `${process.platform}-${process.arch}`,
+        uptime: Math.round(process.uptime()),
+        memoryRss: process.memoryUsage().rss,
+        config: this.configManager.maskSecrets(this.config),
+        configRevision: this.remoteControl.getRevision(),
+        cacheSize: this.reporter.getCacheSize(),
+        destinations: this.reporter.getDestinationStatus(),
+        staticInfoHash: this.staticInfo ? hashStaticInfo(this.staticInfo) : null,
+      },
+    };
+  }
+
+  /**
+   * Watch the config file and reload on change
+   */
+  private watchConfigFile(): void {
+    try {
+      this.stopWatchingConfig = this.configManager.watchConfig(() => {
+        this.logger.info('Config file changed, reloading...');
+        this.reloadConfig();
+      });
+    } catch (error) {
+      this.logger.error('Failed to watch config file, reload with SIGHUP instead', error);
+    }
+  }
+
+  /**
+   * Reload the configuration and apply changes without restarting
+   * An invalid configuration is rejected and the current one keeps running
+   * @returns Why the configuration was rejected, or undefined if it is in effect
+   */
+  async reloadConfig(): Promise<string | undefined> {
+    let next: ClientConfig;
+    try {
+      next = this.configManager.reloadConfig();
+    } catch (error) {
+      this.logger.error('Rejected new configuration, keeping the current one', error);
+      return error instanceof Error ? error.message : String(error);
+    }
+
+    const changes = diffConfig(this.config, next);
+    if (changes.length === 0) {
+      this.logger.info('Configuration reloaded, nothing changed');
+      return undefined;
+    }
+
+    for (const change of changes) {
+      this.logger.info(`Config changed - ${change.description}`);
+    }
+
+    const changed = new Set(changes.map((change) => change.field));
+    this.config = next;
+
+    // Name, tags, token and server URL
+    this.collector.updateConfig(next);
+    await this.reporter.updateConfig(next);
+
+    if (changed.has('alertRules')) {
+      this.alertEvaluator = new AlertEvaluator(next.alertRules);
+      this.logger.info(`Alert Rules: ${this.alertEvaluator.getRuleCount()}`);
+    }
+
+    if (changed.has('probes')) {
+      this.probeRunner = new ProbeRunner(next.probes);
+      this.logger.info(`Health Probes: ${this.probeRunner.getProbeCount()}`);
+    }
+
+    if (changed.has('sampling')) {
+      // The current window is dropped
+      this.sampler?.stop();
+      this.sampler = this.createSampler(next);
+      this.sampler?.start();
+    }
+
+    if (changed.has('metricsExporter')) {
+      await this.metricsExporter?.stop();
+      this.metricsExporter = this.createMetricsExporter(next);
+      if (this.metricsExporter) {
+        if (this.staticInfo) {
+          this.metricsExporter.setStaticInfo(this.staticInfo);
+        }
+        try {
+          await this.metricsExporter.start();
+        } catch (error) {
+          this.logger.error('Failed to start metrics exporter', error);
+        }
+      }
+    } else {
+      this.metricsExporter?.setClientLabels(next);
+    }
+
+    if (changed.has('healthEndpoint')) {
+      await this.healthServer?.stop();
+      this.healthServer = this.createHealthServer(next);
+      try {
+        await this.healthServer?.start();
+      } catch (error) {
+        this.logger.error('Failed to start health endpoint', error);
+      }
+    }
+
+    // Reschedule the loop; the next report follows after the new interval
+    this.health.setReportInterval(next.reportInterval);
+    if (changed.has('reportInterval') && this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = setInterval(() => {
+        this.collectAndReport();
+      }, this.config.reportInterval);
+    }
+
+    if (changed.has('staticInfoRefreshInterval') && this.isRunning) {
+      this.scheduleStaticInfoRefresh();
+    }
+
+    if (changed.has('remoteControl')) {
+      this.remoteControl.updateSettings(next.remoteControl);
+    }
+    if ((changed.has('remoteControl') || changed.has('pushEnabled')) && this.isRunning) {
+      this.scheduleControlPolling();
+    }
+
+    // Location is part of the static info, apply it right away
+    if (changed.has('location')) {
+      await this.refreshStaticInfo();
+    }
+
+    this.logger.info('Configuration reloaded successfully');
+    return undefined;
+  }
+
   /**
    * Collect current system status and report to server
    * Periodically collect dynamic system status
@@ -92,20 +582,51 @@ class MonitorClient {
    */
   private async collectAndReport(): Promise<void> {
     try {
-      // Collect dynamic system status
-      const dynamicStatus = await this.collector.collectDynamicStatus();
+      // Collect dynamic system status while the probes run; probes never reject
+      // and are bounded by their own timeouts
+      const started = performance.now();
+      const [dynamicStatus, probes] = await Promise.all([
+        this.collector.collectDynamicStatus(),
+        this.probeRunner.run(),
+      ]);
+      this.health.recordCollection(
+        performance.now() - started,
+        this.collector.getCollectorDurations()
+      );
+
+      // Attach the summary of the samples taken since the previous report
+      const aggregated = this.sampler?.takeWindow();
+      if (aggregated) {
+        dynamicStatus.aggregated = aggregated;
+      }
+
+      // Expose the latest status to scrapers
+      this.metricsExporter?.update(dynamicStatus);
+
+      // Evaluate local alert rules; alerts are sent in the background, so a slow
+      // server does not hold up the report
+      this.evaluateAlerts(dynamicStatus);
+
+      if (!this.config.pushEnabled) {
+        return;
+      }
 
-      // Build report payload
-      const payload = this.reporter.buildPayload(dynamicStatus);
+      // Build report payload with the client's own health
+      const payload = this.reporter.buildPayload(dynamicStatus, probes, this.getHealth());
 
       // Report to server
       await this.reporter.report(payload);
+      this.health.recordReportSuccess();
 
       this.logger.info('Report sent successfully');
     } catch (error) {
-      if (error instanceof Error && error.message.includes('collect')) {
+      if (error instanceof CircuitOpenError) {
+        // The server is known to be unavailable; the reporter cached the report
+        this.health.recordReportFailure(error);
+      } else if (error instanceof Error && error.message.includes('collect')) {
         this.logger.error('Failed to collect system status', error);
       } else {
+        this.health.recordReportFailure(error);
         this.logger.error('Failed to report data to server', error);
       }
       // Error handling is done in the reporter (caching)
@@ -113,6 +634,75 @@ class MonitorClient {
     }
   }
 
+  /**
+   * Collect one report without sending it or evaluating alerts
+   * Static info is collected first when the client has not been started
+   * @returns The payload the next report would send
+   */
+  async collectOnce(): Promise<ReportPayload> {
+    if (!this.staticInfo) {
+      this.staticInfo = await this.collector.collectStaticInfo();
+      this.reporter.setStaticInfo(this.staticInfo);
+    }
+    const started = performance.now();
+    const [dynamicStatus, probes] = await Promise.all([
+      this.collector.collectDynamicStatus(),
+      this.probeRunner.run(),
+    ]);
+    this.health.recordCollection(
+      performance.now() - started,
+      this.collector.getCollectorDurations()
+    );
+    return this.reporter.buildPayload(dynamicStatus, probes, this.getHealth());
+  }
+
+  /**
+   * Collect and send one report along with what was cached, then release the connections
+   * @throws The reporter's error if any destination did not accept it; it stays cached
+   */
+  async sendOnce(): Promise<void> {
+    try {
+      await this.reporter.report(await this.collectOnce());
+      await this.reporter.retryCachedReports();
+    } finally {
+      await this.reporter.close();
+    }
+  }
+
+  /**
+   * Evaluate alert rules against the latest status and start sending resulting events
+   */
+  private evaluateAlerts(dynamicStatus: DynamicSystemStatus): void {
+    const events = this.alertEvaluator.evaluate(dynamicStatus);
+
+    for (const event of events) {
+      this.logger.warn(
+        `Alert ${event.rule} ${event.state} [${event.severity}]: ${event.expr} (value ${event.value})`
+      );
+    }
+    if (this.config.pushEnabled && events.length > 0) {
+      this.sendAlerts(events.map((event) => this.reporter.buildAlertPayload(event))).catch(
+        (error) => {
+          this.logger.error('Failed to send alerts', error);
+        }
+      );
+    }
+  }
+
+  /**
+   * Send alerts one after another, so the server sees them in order
+   * Failed alerts are cached by the reporter and delivered later
+   */
+  private async sendAlerts(alerts: AlertPayload[]): Promise<void> {
+    for (const alert of alerts) {
+      try {
+        await this.reporter.reportAlert(alert);
+      } catch {
+        // Already logged and cached by the reporter
+      }
+    }
+  }
+
   /**
    * Stop the monitoring client
    */
@@ -129,6 +719,38 @@ class MonitorClient {
       this.intervalId = null;
     }
 
+    if (this.staticInfoTimer) {
+      clearInterval(this.staticInfoTimer);
+      this.staticInfoTimer = null;
+    }
+
+    if (this.controlTimer) {
+      clearInterval(this.controlTimer);
+      this.controlTimer = null;
+    }
+
+    this.sampler?.stop();
+
+    if (this.stopWatchingConfig) {
+      this.stopWatchingConfig();
+      this.stopWatchingConfig = null;
+    }
+
+    if (this.metricsExporter) {
+      this.metricsExporter.stop().catch((error) => {
+        this.logger.error('Failed to stop metrics exporter', error);
+      });
+    }
+
+    this.reporter.close().catch((error) => {
+      this.logger.error('Failed to close reporter transport', error);
+    });
+
+    this.healthServer?.stop().catch((error) => {
+      this.logger.error('Failed to stop health endpoint', error);
+    });
+
+    this.health.setRunning(false);
     this.isRunning = false;
     this.logger.info('System Monitor Client stopped');
   }
@@ -139,6 +761,20 @@ class MonitorClient {
   getIsRunning(): boolean {
     return this.isRunning;
   }
+
+  /**
+   * Get the client's own health, as served on /status and sent with reports
+   */
+  getHealth(): AgentHealth {
+    return this.health.getHealth(this.reporter.getCacheSize());
+  }
+
+  /**
+   * Get the configuration in use
+   */
+  getConfig(): ClientConfig {
+    return this.config;
+  }
 }
 
 /**
@@ -147,7 +783,68 @@ class MonitorClient {
  */
 async function main() {
   const logger = new Logger('Main');
-  const client = new MonitorClient();
+
+  // Command-line flags take precedence over STATUS_CLIENT_* variables
+  const cli = parseCliArgs(process.argv.slice(2));
+  if (cli.problems.length > 0) {
+    console.error(new ConfigValidationError(cli.problems).message);
+    process.exit(ExitCode.USAGE);
+  }
+  const parsed = parseCommand(cli.positionals);
+  if (!parsed.command) {
+    console.error(`${parsed.problem}\n\n${USAGE}`);
+    process.exit(ExitCode.USAGE);
+  }
+
+  // --print-config is 'config print'; 'send' without --once runs the client
+  const command: Command = cli.printConfig ? { name: 'config', action: 'print' } : parsed.command;
+  const oneShot = command.name !== 'run' && (command.name !== 'send' || cli.once);
+
+  const env = readEnvConfig(process.env);
+  const configManager = new ConfigManager(cli.configPath ?? env.configPath ?? 'config.json', {
+    cliOverrides: cli.overrides,
+    strict: cli.strict || env.strict,
+    quiet: oneShot,
+  });
+
+  if (oneShot) {
+    // Keep stdout for the command's output
+    Logger.useStderr();
+    process.exit(
+      await runCommand(command, {
+        options: cli,
+        configManager,
+        // One-shot collection leaves the running client's log positions alone
+        createClient: (readOnly) =>
+          new MonitorClient(configManager, { readOnlyCache: readOnly, persistLogOffsets: false }),
+        cacheDir: CACHE_DIR,
+      })
+    );
+  }
+
+  // One client per cache directory; one-shot commands that write the queues check it too
+  try {
+    process.on('exit', acquireLock(clientLockPath(CACHE_DIR)));
+  } catch (error) {
+    if (error instanceof LockError) {
+      console.error(`Another client is running with ${CACHE_DIR} (process ${error.pid})`);
+    } else {
+      logger.error('Failed to lock the cache directory', error);
+    }
+    process.exit(ExitCode.FAILURE);
+  }
+
+  let client: MonitorClient;
+  try {
+    client = new MonitorClient(configManager);
+  } catch (error) {
+    if (error instanceof ConfigValidationError) {
+      console.error(error.message);
+    } else {
+      logger.error('Failed to load configuration', error);
+    }
+    process.exit(ExitCode.CONFIG);
+  }
 
   // Handle graceful shutdown
   process.on('SIGINT', () => {
@@ -156,6 +853,12 @@ async function main() {
     process.exit(0);
   });
 
+  // Reload the configuration on SIGHUP
+  process.on('SIGHUP', () => {
+    logger.info('Received SIGHUP, reloading configuration...');
+    client.reloadConfig();
+  });
+
   process.on('SIGTERM', () => {
     logger.info('Received SIGTERM, shutting down gracefully...');
     client.stop();
@@ -178,7 +881,7 @@ async function main() {
     await client.start();
   } catch (error) {
     logger.error('Fatal error during startup', error);
-    process.exit(1);
+    process.exit(ExitCode.FAILURE);
   }
 }
 
@@ -187,4 +890,4 @@ if (require.main === module) {
   main();
 }
 
-export { MonitorClient };
+export { MonitorClient, MonitorClientOptions };
@@ -0,0 +1,223 @@
+import axios from 'axios';
+import * as net from 'net';
+import * as si from 'systeminformation';
+import { ProbeResult } from './types';
+import { ProbeConfig } from '../config';
+import { parseDuration } from '../utils/duration';
+import { Logger } from '../utils/logger';
+
+const DEFAULT_TIMEOUT = 5000;
+
+/**
+ * Parsed probe
+ */
+interface Probe {
+  config: ProbeConfig;
+  timeoutMs: number;
+  bodyPattern?: RegExp;
+}
+
+/**
+ * Outcome of a single check
+ */
+interface CheckOutcome {
+  httpStatus?: number;
+  processCount?: number;
+}
+
+/**
+ * ProbeRunner class
+ * Runs all configured health probes concurrently, each bounded by its own timeout
+ */
+export class ProbeRunner {
+  private probes: Probe[] = [];
+  private lastErrors = new Map<string, { error: string; at: number }>();
+  private logger: Logger;
+
+  constructor(configs: ProbeConfig[]) {
+    this.logger = new Logger('ProbeRunner');
+
+    for (const config of configs) {
+      try {
+        this.probes.push(this.parseProbe(config));
+      } catch (error) {
+        this.logger.error(`Skipping invalid probe "${config.name}"`, error);
+      }
+    }
+  }
+
+  /**
+   * Get the number of configured probes
+   */
+  getProbeCount(): number {
+    return this.probes.length;
+  }
+
+  /**
+   * Run every probe once
+   * Never rejects: failures are reported as 'down' results
+   */
+  async run(): Promise<ProbeResult[]> {
+    // Process probes share a single process listing
+    let processNames: Promise<string[]> | null = null;
+    const listProcesses = () => {
+      processNames ??= si.processes().then((data) => data.list.map((proc) => proc.name));
+      return processNames;
+    };
+
+    return Promise.all(this.probes.map((probe) => this.runProbe(probe, listProcesses)));
+  }
+
+  private parseProbe(config: ProbeConfig): Probe {
+    if (!config.name) {
+      throw new Error('name is required');
+    }
+    if (this.probes.some((probe) => probe.config.name === config.name)) {
+      throw new Error('name must be unique');
+    }
+
+    switch (config.type) {
+      case 'http':
+        if (!config.url) throw new Error('url is required for http probes');
+        break;
+      case 'tcp':
+        if (!config.host || !config.port)
+          throw new Error('host and port are required for tcp probes');
+        break;
+      case 'process':
+        if (!config.processName) throw new Error('processName is required for process probes');
+        break;
+      default:
+        throw new Error(`Unknown probe type "${config.type}"`);
+    }
+
+    return {
+      config,
+      timeoutMs: config.timeout !== undefined ? parseDuration(config.timeout) : DEFAULT_TIMEOUT,
+      bodyPattern: config.bodyPattern ? new RegExp(config.bodyPattern) : undefined,
+    };
+  }
+
+  private async runProbe(
+    probe: Probe,
+    listProcesses: () => Promise<string[]>
+  ): Promise<ProbeResult> {
+    const started = Date.now();
+    const { name, type } = probe.config;
+    const result: ProbeResult = { name, type, status: 'up', latencyMs: 0, checkedAt: started };
+
+    try {
+      const outcome = await this.withTimeout(this.check(probe, listProcesses), probe.timeoutMs);
+      Object.assign(result, outcome);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result.status = 'down';
+      this.lastErrors.set(name, { error: message, at: started });
+      this.logger.warn(`Probe ${name} is down: ${message}`);
+    }
+
+    result.latencyMs = Date.now() - started;
+    const lastError = this.lastErrors.get(name);
+    if (lastError) {
+      result.lastError = lastError.error;
+      result.lastErrorAt = lastError.at;
+    }
+    return result;
+  }
+
+  /**
+   * Perform the check
+   * @throws Error describing why the probe failed
+   */
+  private check(probe: Probe, listProcesses: () => Promise<string[]>): Promise<CheckOutcome> {
+    switch (probe.config.type) {
+      case 'http':
+        return this.checkHttp(probe);
+      case 'tcp':
+        return this.checkTcp(probe);
+      default:
+        return this.checkProcess(probe, listProcesses);
+    }
+  }
+
+  private async checkHttp(probe: Probe): Promise<CheckOutcome> {
+    const response = await axios.get<string>(probe.config.url as string, {
+      timeout: probe.timeoutMs,
+      responseType: 'text',
+      transformResponse: (data) => data,
+      maxContentLength: 1024 * 1024,
+      validateStatus: () => true,
+    });
+
+    const expected = probe.config.expectedStatus;
+    const statusOk = expected?.length
+      ? expected.includes(response.status)
+      : response.status >= 200 && response.status < 400;
+    if (!statusOk) {
+      throw new Error(`Unexpected status ${response.status}`);
+    }
+    if (probe.bodyPattern && !probe.bodyPattern.test(String(response.data ?? ''))) {
+      throw new Error(`Response body does not match /${probe.config.bodyPattern}/`);
+    }
+
+    return { httpStatus: response.status };
+  }
+
+  private checkTcp(probe: Probe): Promise<CheckOutcome> {
+    const { host, port } = probe.config;
+
+    return new Promise((resolve, reject) => {
+      const socket = net.connect({ host: host as string, port: port as number });
+      socket.setTimeout(probe.timeoutMs);
+      socket.once('connect', () => {
+        socket.destroy();
+        resolve({});
+      });
+      socket.once('timeout', () => {
+        socket.destroy();
+        reject(new Error(`Connection to ${host}:${port} timed out`));
+      });
+      socket.once('error', (error) => {
+        socket.destroy();
+        reject(new Error(`Connection to ${host}:${port} failed: ${error.message}`));
+      });
+    });
+  }
+
+  private async checkProcess(
+    probe: Probe,
+    listProcesses: () => Promise<string[]>
+  ): Promise<CheckOutcome> {
+    const wanted = (probe.config.processName as string).toLowerCase();
+    const processCount = (await listProcesses()).filter(
+      (name) => name.toLowerCase() === wanted
+    ).length;
+
+    if (processCount === 0) {
+      throw new Error(`No process named "${probe.config.processName}" is running`);
+    }
+    return { processCount };
+  }
+
+  /**
+   * Reject if a promise does not settle in time
+   */
+  private withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () => reject(new Error(`Timed out after ${timeoutMs}ms`)),
+        timeoutMs
+      );
+      promise.then(
+        (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        (error) => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+}
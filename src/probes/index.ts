@@ -0,0 +1,2 @@
+export { ProbeRunner } from './ProbeRunner';
+export { ProbeResult } from './types';
@@ -0,0 +1,17 @@
+import { ProbeType } from '../config';
+
+/**
+ * Health probe result
+ * The last error is kept after the probe recovers, so the server can show what went wrong
+ */
+export interface ProbeResult {
+  name: string; // Probe name
+  type: ProbeType; // Probe type
+  status: 'up' | 'down'; // Result of the latest check
+  latencyMs: number; // Duration of the latest check in milliseconds
+  checkedAt: number; // When the latest check ran (Unix milliseconds)
+  httpStatus?: number; // Response status code (http)
+  processCount?: number; // Number of matching processes (process)
+  lastError?: string; // Most recent failure reason
+  lastErrorAt?: number; // When the most recent failure happened (Unix milliseconds)
+}
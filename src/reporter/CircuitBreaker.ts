@@ -0,0 +1,140 @@
+import { TransportError } from './transports';
+
+/**
+ * Circuit breaker state
+ * closed: requests flow; open: requests are refused until the retry delay passed;
+ * halfOpen: a single trial request is in flight
+ */
+export type CircuitState = 'closed' | 'open' | 'halfOpen';
+
+/**
+ * Circuit breaker options, delays in milliseconds
+ */
+export interface CircuitBreakerOptions {
+  initialDelay: number; // Backoff after the circuit first opens
+  maxDelay: number; // Upper bound of the backoff
+  failureThreshold: number; // Consecutive failures that open the circuit
+}
+
+/**
+ * Exponential backoff with jitter
+ * The delay doubles with every attempt up to maxDelay; a random half of it is
+ * subtracted so clients that failed together do not retry together
+ * @param attempt Attempt number, starting at 1
+ * @param random Random number in [0, 1)
+ * @returns Delay in milliseconds
+ */
+export function computeBackoff(
+  attempt: number,
+  initialDelay: number,
+  maxDelay: number,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(maxDelay, initialDelay * 2 ** Math.max(0, attempt - 1));
+  return Math.round(ceiling / 2 + (random() * ceiling) / 2);
+}
+
+/**
+ * Error raised instead of sending while the circuit is open
+ */
+export class CircuitOpenError extends TransportError {
+  constructor(public readonly retryDelay: number) {
+    super(`Server unavailable, next attempt in ${Math.ceil(retryDelay / 1000)}s`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * CircuitBreaker class
+ * Stops sending to a server that keeps failing. After failureThreshold consecutive
+ * failures the circuit opens for a backoff delay, then lets one trial request through;
+ * its outcome closes the circuit or opens it again with a longer delay.
+ * A Retry-After delay from the server is honoured in every state.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private nextAttemptAt = 0; // Requests are refused before this time
+  private retryAt = 0; // Queued data is retried from this time
+
+  constructor(
+    private options: CircuitBreakerOptions,
+    private random: () => number = Math.random
+  ) {}
+
+  /**
+   * Check whether a request would be let through, without claiming the trial request
+   */
+  canAttempt(now: number = Date.now()): boolean {
+    return now >= this.nextAttemptAt && this.state !== 'halfOpen';
+  }
+
+  /**
+   * Check whether a request may be sent now
+   * An open circuit whose delay has passed lets exactly one request through
+   */
+  tryAcquire(now: number = Date.now()): boolean {
+    if (!this.canAttempt(now)) {
+      return false;
+    }
+    if (this.state === 'open') {
+      this.state = 'halfOpen';
+    }
+    return true;
+  }
+
+  /**
+   * Record that the server answered
+   */
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.nextAttemptAt = 0;
+    this.retryAt = 0;
+  }
+
+  /**
+   * Record that the server could not be reached or was unavailable
+   * @param retryAfter Delay requested by the server in milliseconds
+   */
+  recordFailure(retryAfter?: number, now: number = Date.now()): void {
+    this.failures++;
+    const backoff = computeBackoff(
+      this.failures,
+      this.options.initialDelay,
+      this.options.maxDelay,
+      this.random
+    );
+    const delay = Math.max(retryAfter ?? 0, backoff);
+
+    if (this.state === 'halfOpen' || this.failures >= Math.max(1, this.options.failureThreshold)) {
+      this.state = 'open';
+      this.nextAttemptAt = now + delay;
+    } else {
+      this.nextAttemptAt = now + (retryAfter ?? 0);
+    }
+    this.retryAt = now + delay;
+  }
+
+  /**
+   * Get the current state
+   */
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Get the number of consecutive failures
+   */
+  getFailures(): number {
+    return this.failures;
+  }
+
+  /**
+   * Get the time until queued data should be retried, in milliseconds
+   * Backs off after every failure, also while the circuit is still closed
+   */
+  getRetryDelay(now: number = Date.now()): number {
+    return Math.max(0, this.retryAt - now, this.nextAttemptAt - now);
+  }
+}
@@ -0,0 +1,162 @@
+import {
+  Transport,
+  TransportError,
+  TransportRequest,
+  TransportResponse,
+  createTransport,
+  resolveTransportType,
+} from './transports';
+import { CircuitBreaker, CircuitOpenError, CircuitState } from './CircuitBreaker';
+import { ClientConfig, DestinationMode, ResolvedDestination, RetryConfig } from '../config';
+import { Logger } from '../utils/logger';
+import { parseDuration } from '../utils/duration';
+
+/**
+ * Check whether an error means the server is unreachable or temporarily unavailable
+ */
+export function isRetriable(error: unknown): boolean {
+  if (!(error instanceof TransportError)) {
+    return false;
+  }
+  const { status } = error;
+  return (
+    status === undefined || status === 408 || status === 429 || (status >= 500 && status !== 501)
+  );
+}
+
+/**
+ * Destination class
+ * One server the client reports to: its transport, its circuit breaker and what the
+ * server is known to support and store
+ */
+export class Destination {
+  readonly name: string;
+  readonly url: string;
+  readonly mode: DestinationMode;
+  batchSupported = true; // Cleared when the server has no batch endpoint
+  acknowledgedStaticInfoHash: string | null = null; // Static info the server has stored
+  private transport: Transport;
+  private breaker: CircuitBreaker;
+  private logger: Logger;
+
+  /**
+   * @param destination Destination settings
+   * @param clientId Client unique identifier
+   * @param config Configuration providing the shared transport and retry settings
+   */
+  constructor(destination: ResolvedDestination, clientId: string, config: ClientConfig) {
+    this.logger = new Logger('Destination');
+    this.name = destination.name;
+    this.url = destination.url;
+    this.mode = destination.mode;
+
+    // Select the transport by explicit setting or server URL scheme
+    this.transport = createTransport(resolveTransportType(destination.url, destination.transport), {
+      serverUrl: destination.url,
+      clientId,
+      authToken: destination.authToken,
+      mqttTopic: config.mqttTopic,
+      signingSecret: destination.signingSecret,
+      tls: config.tls,
+      proxy: config.proxy,
+    });
+    this.logger.info(`Using ${this.transport.name} transport for ${destination.url}`);
+    this.breaker = this.createBreaker(config.retry);
+  }
+
+  /**
+   * Apply new retry settings; the failure count starts over
+   */
+  setRetry(retry: RetryConfig): void {
+    this.breaker = this.createBreaker(retry);
+  }
+
+  /**
+   * Send a message through the circuit breaker
+   * @throws CircuitOpenError while the server is considered unavailable
+   */
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    if (!this.breaker.tryAcquire()) {
+      throw new CircuitOpenError(this.breaker.getRetryDelay());
+    }
+
+    const previous = this.breaker.getState();
+    try {
+      const response = await this.transport.send(request);
+      this.breaker.recordSuccess();
+      if (previous !== 'closed') {
+        this.logger.info(`${this.describe()} is reachable again`);
+      }
+      return response;
+    } catch (error) {
+      if (isRetriable(error)) {
+        this.breaker.recordFailure(error instanceof TransportError ? error.retryAfter : undefined);
+        if (this.breaker.getState() === 'open') {
+          this.logger.warn(
+            `${this.describe()} unavailable after ${this.breaker.getFailures()} consecutive ` +
+              `failures, pausing for ${Math.ceil(this.breaker.getRetryDelay() / 1000)}s`
+          );
+        }
+      } else {
+        // The server answered, it just rejected this message
+        this.breaker.recordSuccess();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether a message would be let through now
+   */
+  canAttempt(): boolean {
+    return this.breaker.canAttempt();
+  }
+
+  /**
+   * Get the time until queued data should be retried, in milliseconds
+   */
+  getRetryDelay(): number {
+    return this.breaker.getRetryDelay();
+  }
+
+  /**
+   * Get the circuit breaker state
+   */
+  getCircuitState(): CircuitState {
+    return this.breaker.getState();
+  }
+
+  /**
+   * Get the number of consecutive failures
+   */
+  getFailures(): number {
+    return this.breaker.getFailures();
+  }
+
+  /**
+   * Release the transport's connections
+   */
+  async close(): Promise<void> {
+    await this.transport.close();
+  }
+
+  /**
+   * Name the server in log messages; the implicit serverUrl destination is just 'Server'
+   */
+  describe(): string {
+    return this.name === 'default' ? 'Server' : `Server ${this.name}`;
+  }
+
+  private createBreaker(retry: RetryConfig): CircuitBreaker {
+    try {
+      return new CircuitBreaker({
+        initialDelay: parseDuration(retry.initialDelay),
+        maxDelay: parseDuration(retry.maxDelay),
+        failureThreshold: retry.failureThreshold,
+      });
+    } catch (error) {
+      this.logger.error('Invalid retry configuration, using defaults', error);
+      return new CircuitBreaker({ initialDelay: 5000, maxDelay: 300000, failureThreshold: 3 });
+    }
+  }
+}
@@ -0,0 +1,379 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { Logger } from '../utils/logger';
+
+/**
+ * Compact once the file holds this many bytes and at least twice the live data
+ */
+const COMPACT_MIN_BYTES = 1024 * 1024;
+
+/**
+ * Entry stored in a persistent queue
+ */
+export interface QueueEntry {
+  id: string; // Unique entry identifier
+  timestamp: number; // When the entry was queued (Unix milliseconds)
+}
+
+/**
+ * Queue limits; the oldest entries are dropped first
+ */
+export interface QueueLimits {
+  maxEntries: number; // Maximum number of entries
+  maxBytes: number; // Maximum size of all entries on disk
+  maxAge: number; // Maximum entry age in milliseconds (0: no limit)
+}
+
+/**
+ * One line of the queue file
+ */
+export type QueueRecord<T> = { op: 'put'; entry: T } | { op: 'del'; ids: string[] };
+
+/**
+ * Checksum of a record, the first 16 hex digits of its SHA-256
+ */
+function checksum(json: string): string {
+  return createHash('sha256').update(json).digest('hex').slice(0, 16);
+}
+
+/**
+ * Encode a record as one line: '<checksum> <json>\n'
+ */
+export function encodeRecord<T>(record: QueueRecord<T>): string {
+  const json = JSON.stringify(record);
+  return `${checksum(json)} ${json}\n`;
+}
+
+/**
+ * Decode one line of the queue file
+ * @returns The record, or null if the line is torn or corrupt
+ */
+export function decodeRecord<T>(line: string): QueueRecord<T> | null {
+  const separator = line.indexOf(' ');
+  if (separator < 0) {
+    return null;
+  }
+  const json = line.slice(separator + 1);
+  if (line.slice(0, separator) !== checksum(json)) {
+    return null;
+  }
+  try {
+    const record = JSON.parse(json);
+    if (record?.op === 'put' && typeof record.entry?.id === 'string') {
+      return record;
+    }
+    if (record?.op === 'del' && Array.isArray(record.ids)) {
+      return record;
+    }
+  } catch {
+    // Fall through
+  }
+  return null;
+}
+
+/**
+ * Read the entries of a queue file without changing it, so it is safe while a client
+ * has the queue open
+ * Corrupt records are skipped
+ */
+export function readQueueFile<T extends QueueEntry>(filePath: string): T[] {
+  const entries = new Map<string, T>();
+  for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+    const record = line === '' ? null : decodeRecord<T>(line);
+    if (record?.op === 'put') {
+      entries.set(record.entry.id, record.entry);
+    } else if (record?.op === 'del') {
+      record.ids.forEach((id) => entries.delete(id));
+    }
+  }
+  return [...entries.values()];
+}
+
+/**
+ * PersistentQueue class
+ * Crash-safe on-disk queue. Changes are appended to a log file, one checksummed record
+ * per line, and the log is compacted by writing a new file and renaming it over the
+ * old one, so a crash at any point loses at most the record being written.
+ * Records that fail their checksum are moved to '<file>.quarantine' instead of
+ * discarding the queue.
+ * A read-only queue never writes: changes stay in memory, so the file can be opened
+ * while another process owns it.
+ */
+export class PersistentQueue<T extends QueueEntry> {
+  private entries = new Map<string, { entry: T; bytes: number }>();
+  private liveBytes = 0;
+  private fileBytes = 0;
+  private fd: number | null = null;
+  private tornTail = false; // The file ends in a partial line that was not compacted away
+  private quarantinePath: string;
+  private logger: Logger;
+
+  constructor(
+    private filePath: string,
+    private limits: QueueLimits,
+    private readOnly: boolean = false
+  ) {
+    this.logger = new Logger('PersistentQueue');
+    this.quarantinePath = `${filePath}.quarantine`;
+    this.load();
+  }
+
+  /**
+   * Apply new limits, dropping entries that no longer fit
+   */
+  setLimits(limits: QueueLimits): void {
+    this.limits = limits;
+    this.persist(this.enforceLimits());
+  }
+
+  /**
+   * Get the number of entries
+   */
+  size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Get the size of all entries on disk in bytes
+   */
+  bytes(): number {
+    return this.liveBytes;
+  }
+
+  /**
+   * Get all entries, oldest first
+   * Changes to an entry are only persisted by update()
+   */
+  list(): T[] {
+    return [...this.entries.values()].map(({ entry }) => entry);
+  }
+
+  /**
+   * Append an entry, then drop the oldest entries beyond the limits
+   */
+  add(entry: T): void {
+    this.persist([this.put(entry), ...this.enforceLimits()]);
+  }
+
+  /**
+   * Persist changed entries
+   */
+  update(entries: T[]): void {
+    this.persist(entries.filter((entry) => this.entries.has(entry.id)).map((e) => this.put(e)));
+  }
+
+  /**
+   * Remove entries by identifier
+   */
+  remove(ids: Iterable<string>): void {
+    const removed = [...ids].filter((id) => this.delete(id));
+    if (removed.length > 0) {
+      this.persist([{ op: 'del', ids: removed }]);
+    }
+  }
+
+  /**
+   * Drop entries older than maxAge
+   */
+  expire(now: number = Date.now()): void {
+    this.persist(this.enforceLimits(now));
+  }
+
+  /**
+   * Close the queue file; it is reopened by the next change
+   */
+  close(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  private put(entry: T): QueueRecord<T> {
+    const record: QueueRecord<T> = { op: 'put', entry };
+    const bytes = Buffer.byteLength(encodeRecord(record));
+    // Replacing an existing entry keeps its position in the queue
+    this.liveBytes += bytes - (this.entries.get(entry.id)?.bytes ?? 0);
+    this.entries.set(entry.id, { entry, bytes });
+    return record;
+  }
+
+  private delete(id: string): boolean {
+    const existing = this.entries.get(id);
+    if (!existing) {
+      return false;
+    }
+    this.entries.delete(id);
+    this.liveBytes -= existing.bytes;
+    return true;
+  }
+
+  /**
+   * Drop expired entries and the oldest entries beyond the count and size limits
+   * @returns The delete record to persist, if anything was dropped
+   */
+  private enforceLimits(now: number = Date.now()): QueueRecord<T>[] {
+    const { maxEntries, maxBytes, maxAge } = this.limits;
+    const expired: string[] = [];
+    const evicted: string[] = [];
+
+    for (const [id, { entry }] of this.entries) {
+      if (maxAge > 0 && now - entry.timestamp > maxAge) {
+        expired.push(id);
+      }
+    }
+    expired.forEach((id) => this.delete(id));
+
+    for (const id of this.entries.keys()) {
+      if (this.entries.size <= maxEntries && this.liveBytes <= maxBytes) {
+        break;
+      }
+      this.delete(id);
+      evicted.push(id);
+    }
+
+    if (expired.length > 0) {
+      this.logger.warn(`Dropped ${expired.length} cached entries older than ${maxAge}ms`);
+    }
+    if (evicted.length > 0) {
+      this.logger.warn(`Cache size limit reached. Removed ${evicted.length} oldest entries.`);
+    }
+
+    const dropped = [...expired, ...evicted];
+    return dropped.length > 0 ? [{ op: 'del', ids: dropped }] : [];
+  }
+
+  /**
+   * Append records to the file and flush them to disk
+   * Compacts the file once it is mostly superseded records
+   */
+  private persist(records: QueueRecord<T>[]): void {
+    if (records.length === 0 || this.readOnly) {
+      return;
+    }
+
+    try {
+      if (this.fileBytes >= COMPACT_MIN_BYTES && this.fileBytes >= this.liveBytes * 2) {
+        this.compact();
+        return;
+      }
+
+      const lines = records.map((record) => encodeRecord(record)).join('');
+      const data = Buffer.from(this.tornTail ? `\n${lines}` : lines);
+      if (this.fd === null) {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        this.fd = fs.openSync(this.filePath, 'a');
+      }
+      fs.writeSync(this.fd, data);
+      fs.fsyncSync(this.fd);
+      this.fileBytes += data.length;
+      this.tornTail = false;
+    } catch (error) {
+      this.logger.error('Error saving cache to disk', error);
+    }
+  }
+
+  /**
+   * Rewrite the file with only the live entries
+   * The new file is written next to the old one and renamed over it
+   */
+  private compact(): void {
+    this.close();
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    const tempPath = `${this.filePath}.tmp`;
+    const data = Buffer.from(
+      this.list()
+        .map((entry) => encodeRecord<T>({ op: 'put', entry }))
+        .join('')
+    );
+    const fd = fs.openSync(tempPath, 'w');
+    try {
+      fs.writeSync(fd, data);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tempPath, this.filePath);
+    this.syncDirectory();
+
+    this.fileBytes = data.length;
+    this.tornTail = false;
+  }
+
+  /**
+   * Flush the rename to disk; not supported on every platform
+   */
+  private syncDirectory(): void {
+    try {
+      const fd = fs.openSync(path.dirname(this.filePath), 'r');
+      try {
+        fs.fsyncSync(fd);
+      } finally {
+        fs.closeSync(fd);
+      }
+    } catch {
+      // Best effort
+    }
+  }
+
+  /**
+   * Replay the file, quarantine corrupt records and compact the result
+   * A torn last line (crash during append) is quarantined too; a read-only queue just
+   * skips corrupt records
+   */
+  private load(): void {
+    let content: string;
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        return;
+      }
+      content = fs.readFileSync(this.filePath, 'utf-8');
+    } catch (error) {
+      this.logger.error('Error loading cache from disk', error);
+      return;
+    }
+
+    const corrupt: string[] = [];
+    for (const line of content.split('\n')) {
+      if (line === '') {
+        continue;
+      }
+      const record = decodeRecord<T>(line);
+      if (!record) {
+        corrupt.push(line);
+      } else if (record.op === 'put') {
+        this.put(record.entry);
+      } else {
+        record.ids.forEach((id) => this.delete(id));
+      }
+    }
+
+    if (this.readOnly) {
+      this.enforceLimits();
+      return;
+    }
+
+    if (corrupt.length > 0) {
+      this.logger.warn(
+        `Moved ${corrupt.length} corrupt cache records to ${this.quarantinePath}, keeping the rest`
+      );
+      try {
+        fs.appendFileSync(this.quarantinePath, corrupt.map((line) => `${line}\n`).join(''));
+      } catch (error) {
+        this.logger.error('Error writing cache quarantine file', error);
+      }
+    }
+
+    this.enforceLimits();
+
+    try {
+      this.compact();
+    } catch (error) {
+      this.logger.error('Error compacting cache file', error);
+      this.fileBytes = Buffer.byteLength(content);
+      this.tornTail = content.length > 0 && !content.endsWith('\n');
+    }
+  }
+}
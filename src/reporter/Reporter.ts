@@ -1,37 +1,167 @@
-import axios, { AxiosError } from 'axios';
 import * as os from 'os';
 import * as fs from 'fs';
 import * as path from 'path';
+import { createHash } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
-import { ReportPayload, CachedReport } from './types';
+import {
+  ReportPayload,
+  CachedReport,
+  CachedAlert,
+  CachedEvent,
+  CacheEntry,
+  EventPayload,
+  StaticInfoChangeEvent,
+  BatchPayload,
+  BatchResponse,
+  ReportResponse,
+  DestinationStatus,
+} from './types';
+import { TransportError, TransportResponse } from './transports';
 import { StaticSystemInfo, DynamicSystemStatus } from '../collector';
-import { ClientConfig } from '../config';
+import { AlertEvent, AlertPayload } from '../alerts';
+import { ProbeResult } from '../probes';
+import { AgentHealth } from '../health';
+import { PersistentQueue, QueueLimits } from './PersistentQueue';
+import { CircuitOpenError } from './CircuitBreaker';
+import { Destination, isRetriable } from './Destination';
+import { ControlAck, ControlMessage, ControlPoll, DiagnosticsPayload } from '../control';
+import { ClientConfig, destinationFileKey, resolveDestinations } from '../config';
 import { Logger } from '../utils/logger';
+import { parseDuration } from '../utils/duration';
+
+/**
+ * Compute the content hash of static system info
+ * Keys are sorted, so the hash does not depend on property order
+ * @returns Hex-encoded SHA-256 digest
+ */
+export function hashStaticInfo(staticInfo: StaticSystemInfo): string {
+  const canonical = JSON.stringify(staticInfo, (_key, value) =>
+    value !== null && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+      : value
+  );
+  return createHash('sha256').update(canonical).digest('hex');
+}
+
+/**
+ * Offline queue of the failover destinations or of one fan-out destination
+ * Entries are delivered through the first of its destinations that accepts them
+ */
+interface DeliveryRoute {
+  name: string; // 'failover' or the fan-out destination's name
+  destinations: Destination[]; // Tried in order
+  cache: PersistentQueue<CacheEntry>;
+  drainTimer: NodeJS.Timeout | null;
+  drainAt: number;
+  draining: boolean;
+  control: boolean; // Control messages are accepted from this route's servers
+}
+
+/**
+ * Reporter options
+ */
+export interface ReporterOptions {
+  readOnly?: boolean; // Load the offline queues without ever writing them
+}
 
 /**
  * Reporter class
  * Responsible for reporting collected data to the server
  * Handle reporting, caching, and retry logic
  * Error handling and logging
+ *
+ * Every message goes to the failover destinations (the first one that accepts) and to
+ * each fan-out destination. Each of these routes has its own offline queue, and each
+ * destination its own circuit breaker, so one unavailable server neither blocks nor
+ * duplicates delivery to the others.
  */
 export class Reporter {
   private clientId: string;
   private config: ClientConfig;
-  private cache: CachedReport[] = [];
-  private cacheFilePath: string;
+  private cacheDir: string;
+  private readOnly: boolean;
+  private routes: DeliveryRoute[];
+  private queues = new Map<string, PersistentQueue<CacheEntry>>(); // By file path
   private staticInfo: StaticSystemInfo | null = null;
+  private staticInfoHash: string | null = null;
   private logger: Logger;
+  private closed = false;
+  private controlHandler: ((message: ControlMessage) => void) | null = null;
 
-  constructor(config: ClientConfig, cacheDir: string = '.cache') {
+  constructor(config: ClientConfig, cacheDir: string = '.cache', options: ReporterOptions = {}) {
     this.logger = new Logger('Reporter');
     this.config = config;
-    this.cacheFilePath = path.join(cacheDir, 'failed-reports.json');
+    this.cacheDir = cacheDir;
+    this.readOnly = options.readOnly ?? false;
 
     // Load or generate client ID
     this.clientId = this.loadOrGenerateClientId(cacheDir);
 
-    // Load cached reports from disk
-    this.loadCacheFromDisk();
+    // Create the destinations and load their cached reports from disk
+    this.routes = this.createRoutes(config);
+    if (!this.readOnly) {
+      this.migrateLegacyCache(path.join(cacheDir, 'failed-reports.json'));
+    }
+  }
+
+  /**
+   * Create the destinations of a configuration, grouped into routes
+   * The failover destinations share the queue file single-server versions used, so
+   * their cache carries over; fan-out destinations get one each. Open queues are reused.
+   */
+  private createRoutes(config: ClientConfig): DeliveryRoute[] {
+    const destinations = resolveDestinations(config).map(
+      (destination) => new Destination(destination, this.clientId, config)
+    );
+    const failover = destinations.filter((destination) => destination.mode === 'failover');
+    const routes: DeliveryRoute[] = [];
+
+    if (failover.length > 0) {
+      routes.push(this.createRoute('failover', failover, 'report-queue.log'));
+    }
+    for (const destination of destinations.filter((d) => d.mode === 'fanout')) {
+      const fileName = `report-queue-${destinationFileKey(destination.name)}.log`;
+      routes.push(this.createRoute(destination.name, [destination], fileName));
+    }
+
+    // Control messages come from the failover servers, or the first fan-out server
+    routes[0].control = true;
+    return routes;
+  }
+
+  private createRoute(name: string, destinations: Destination[], fileName: string): DeliveryRoute {
+    const filePath = path.join(this.cacheDir, fileName);
+    let cache = this.queues.get(filePath);
+    if (!cache) {
+      cache = new PersistentQueue<CacheEntry>(
+        filePath,
+        this.getCacheLimits(this.config),
+        this.readOnly
+      );
+      this.queues.set(filePath, cache);
+    }
+    return {
+      name,
+      destinations,
+      cache,
+      drainTimer: null,
+      drainAt: 0,
+      draining: false,
+      control: false,
+    };
+  }
+
+  /**
+   * Get the cache limits of a configuration
+   */
+  private getCacheLimits(config: ClientConfig): QueueLimits {
+    let maxAge = 0;
+    try {
+      maxAge = parseDuration(config.cacheMaxAge);
+    } catch (error) {
+      this.logger.error('Invalid cacheMaxAge, cached reports do not expire', error);
+    }
+    return { maxEntries: config.cacheSize, maxBytes: config.cacheMaxBytes, maxAge };
   }
 
   /**
@@ -67,25 +197,100 @@ export class Reporter {
     }
   }
 
+  /**
+   * Apply a reloaded configuration
+   * Name, tags and other payload fields take effect with the next report; the
+   * destinations are recreated when a server URL, token, transport, signing, TLS or proxy
+   * setting changed. Queues of removed destinations are closed and kept on disk.
+   */
+  async updateConfig(config: ClientConfig): Promise<void> {
+    const previous = this.config;
+    this.config = config;
+
+    if (this.getConnectionSettings(previous) !== this.getConnectionSettings(config)) {
+      const oldRoutes = this.routes;
+      oldRoutes.forEach((route) => this.cancelDrain(route));
+
+      // The new servers may support batches even if the old ones did not, and do not
+      // have this client's static info yet; failures of the old servers say nothing
+      // about the new ones
+      this.routes = this.createRoutes(config);
+
+      const used = new Set(this.routes.map((route) => route.cache));
+      for (const [filePath, cache] of this.queues) {
+        if (!used.has(cache)) {
+          cache.close();
+          this.queues.delete(filePath);
+        }
+      }
+      for (const route of this.routes) {
+        if (route.cache.size() > 0) {
+          this.scheduleDrain(route, 0);
+        }
+      }
+      await Promise.all(
+        oldRoutes.flatMap((route) => route.destinations).map((destination) => destination.close())
+      );
+    } else if (JSON.stringify(previous.retry) !== JSON.stringify(config.retry)) {
+      this.getDestinations().forEach((destination) => destination.setRetry(config.retry));
+    }
+
+    if (
+      previous.cacheSize !== config.cacheSize ||
+      previous.cacheMaxBytes !== config.cacheMaxBytes ||
+      previous.cacheMaxAge !== config.cacheMaxAge
+    ) {
+      this.queues.forEach((cache) => cache.setLimits(this.getCacheLimits(config)));
+    }
+  }
+
+  /**
+   * Serialize the settings that decide where and how data is sent
+   */
+  private getConnectionSettings(config: ClientConfig): string {
+    return JSON.stringify([
+      resolveDestinations(config),
+      config.mqttTopic,
+      config.tls,
+      config.proxy,
+    ]);
+  }
+
   /**
    * Set static system information
    * This should be called once at startup with the collected static info
+   * Reports carry it until the server has stored this version (see sendStaticInfo)
    */
   setStaticInfo(staticInfo: StaticSystemInfo): void {
     this.staticInfo = staticInfo;
+    this.staticInfoHash = hashStaticInfo(staticInfo);
   }
 
   /**
    * Build report payload
    * Assemble complete report payload with all required fields
+   * Static info is attached while any destination does not have it; it is left out
+   * again for destinations that do
    * @param dynamicStatus Current dynamic system status
+   * @param probes Latest health probe results, if any probes are configured
+   * @param agent Self-metrics of the client
    * @returns Complete report payload
    */
-  buildPayload(dynamicStatus: DynamicSystemStatus): ReportPayload {
-    if (!this.staticInfo) {
+  buildPayload(
+    dynamicStatus: DynamicSystemStatus,
+    probes?: ProbeResult[],
+    agent?: AgentHealth
+  ): ReportPayload {
+    if (!this.staticInfo || !this.staticInfoHash) {
       throw new Error('Static system info not set. Call setStaticInfo() first.');
     }
 
+    const includeStaticInfo =
+      this.config.sendStaticInfo === 'always' ||
+      this.getDestinations().some(
+        (destination) => destination.acknowledgedStaticInfoHash !== this.staticInfoHash
+      );
+
     const platform = os.platform();
     const platformName =
       platform === 'win32' ? 'windows' : platform === 'darwin' ? 'darwin' : 'linux';
@@ -97,48 +302,101 @@ export class Reporter {
       clientPurpose: this.config.clientPurpose,
       hostname: os.hostname(),
       platform: platformName,
-      staticInfo: this.staticInfo,
+      staticInfo: includeStaticInfo ? this.staticInfo : undefined,
+      staticInfoHash: this.staticInfoHash,
       dynamicStatus: dynamicStatus,
+      probes: probes?.length ? probes : undefined,
+      agent,
       priority: this.config.priority || 0,
     };
   }
 
   /**
    * Report data to server
-   * Send data to server via HTTP POST
-   * Cache data on failure
-   * Clear cache on success
+   * Send data to every destination via the configured transports
+   * Cache data on failure; while the servers are unavailable reports are cached without
+   * sending and a CircuitOpenError is thrown
+   * Drain the cache in the background on success
    * Log errors with details
    * @param payload Report payload to send
    */
   async report(payload: ReportPayload): Promise<void> {
-    try {
-      // Send HTTP POST request to server with authentication token if configured
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-      };
-      
-      if (this.config.authToken) {
-        headers['X-Auth-Token'] = this.config.authToken;
-      }
-      
-      const response = await axios.post(`${this.config.serverUrl}/api/reports`, payload, {
-        headers,
-        timeout: 10000, // 10 second timeout
-      });
+    await this.sendOnAllRoutes(
+      'report',
+      (route) =>
+        this.deliver(route, async (destination) => {
+          await this.sendSingle(route, destination, payload);
+          return destination;
+        }),
+      () => ({ id: uuidv4(), kind: 'report', payload, timestamp: Date.now(), retryCount: 0 }),
+      'Report sent successfully'
+    );
+  }
 
-      if (response.status >= 200 && response.status < 300) {
-        this.logger.info('Report sent successfully');
-        // Clear cache on successful report
-        this.clearCache();
-      } else {
-        throw new Error(`Server returned status ${response.status}`);
-      }
-    } catch (error) {
-      this.logger.error('Failed to send report: ' + this.getErrorMessage(error), error);
-      this.cacheFailedReport(payload);
-      throw error;
-    }
+  /**
+   * Build alert payload
+   * @param event Alert event emitted by the alert evaluator
+   * @returns Alert payload identifying this client
+   */
+  buildAlertPayload(event: AlertEvent): AlertPayload {
+    return {
+      clientId: this.clientId,
+      clientName: this.config.clientName,
+      clientTags: this.config.clientTags,
+      hostname: os.hostname(),
+      alert: event,
+    };
+  }
+
+  /**
+   * Report an alert event to the server
+   * Cache the alert on failure so it is delivered once the server is reachable
+   * @param payload Alert payload to send
+   */
+  async reportAlert(payload: AlertPayload): Promise<void> {
+    await this.sendOnAllRoutes(
+      'alert',
+      (route) =>
+        this.deliver(route, async (destination) => {
+          await destination.send({ kind: 'alert', body: payload });
+          return destination;
+        }),
+      () => ({ id: uuidv4(), kind: 'alert', payload, timestamp: Date.now(), retryCount: 0 }),
+      `Alert ${payload.alert.rule} (${payload.alert.state}) sent successfully`
+    );
+  }
+
+  /**
+   * Build event payload
+   * @param event Client event
+   * @returns Event payload identifying this client
+   */
+  buildEventPayload(event: StaticInfoChangeEvent): EventPayload {
+    return {
+      clientId: this.clientId,
+      clientName: this.config.clientName,
+      clientTags: this.config.clientTags,
+      hostname: os.hostname(),
+      event,
+    };
+  }
+
+  /**
+   * Report a client event to the server
+   * Cache the event on failure so it is delivered once the server is reachable
+   * @param payload Event payload to send
+   */
+  async reportEvent(payload: EventPayload): Promise<void> {
+    await this.sendOnAllRoutes(
+      'event',
+      (route) =>
+        this.deliver(route, async (destination) => {
+          await destination.send({ kind: 'event', body: payload });
+          return destination;
+        }),
+      () => ({ id: uuidv4(), kind: 'event', payload, timestamp: Date.now(), retryCount: 0 }),
+      `Event ${payload.event.type} sent successfully`
+    );
   }
 
   /**
@@ -147,154 +405,634 @@ export class Reporter {
    * @param payload Report payload to cache
    */
   cacheFailedReport(payload: ReportPayload): void {
-    const cachedReport: CachedReport = {
-      payload,
-      timestamp: Date.now(),
-      retryCount: 0,
-    };
+    for (const route of this.routes) {
+      this.addToCache(route, {
+        id: uuidv4(),
+        kind: 'report',
+        payload,
+        timestamp: Date.now(),
+        retryCount: 0,
+      });
+    }
+  }
+
+  /**
+   * Send a message on every route, caching it for the routes that failed
+   * Routes are independent, so they are served in parallel
+   * @param kind Message kind for log messages
+   * @param send Sends on one route and returns the destination that accepted
+   * @param createEntry Creates the cache entry for a route that failed
+   * @param sentMessage Logged on success
+   * @throws The first failure, once every route was served
+   */
+  private async sendOnAllRoutes(
+    kind: string,
+    send: (route: DeliveryRoute) => Promise<Destination>,
+    createEntry: () => CacheEntry,
+    sentMessage: string
+  ): Promise<void> {
+    const failures: unknown[] = [];
+
+    await Promise.all(
+      this.routes.map(async (route) => {
+        try {
+          const destination = await send(route);
+          this.logger.info(sentMessage + this.describeDestination(destination));
+
+          // The server is reachable, deliver what was cached meanwhile
+          if (route.cache.size() > 0) {
+            this.scheduleDrain(route, 0);
+          }
+        } catch (error) {
+          this.logSendFailure(route, kind, error);
+          this.addToCache(route, createEntry());
+          failures.push(error);
+        }
+      })
+    );
+
+    if (failures.length > 0) {
+      throw failures[0];
+    }
+  }
+
+  /**
+   * Send through the first destination of a route that accepts
+   * Unavailable destinations are skipped; a rejection is final, as the other servers
+   * would reject the message too
+   * @throws The last error when no destination was available
+   */
+  private async deliver<T>(
+    route: DeliveryRoute,
+    send: (destination: Destination) => Promise<T>
+  ): Promise<T> {
+    let lastError: unknown;
+    for (const destination of route.destinations) {
+      try {
+        return await send(destination);
+      } catch (error) {
+        if (!isRetriable(error)) {
+          throw error;
+        }
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Add an entry to the cache; the queue enforces the size limits and persists it
+   */
+  private addToCache(route: DeliveryRoute, entry: CacheEntry): void {
+    route.cache.add(entry);
+    const label = { report: 'Report', alert: 'Alert', event: 'Event' }[entry.kind ?? 'report'];
+    this.logger.info(
+      `${label} cached${this.describeRoute(route)}. Total cached entries: ${route.cache.size()}`
+    );
+
+    this.scheduleDrain(route, this.getRetryDelay(route));
+  }
+
+  /**
+   * Log a failed send; an open circuit is expected and logged without a stack trace
+   */
+  private logSendFailure(route: DeliveryRoute, kind: string, error: unknown): void {
+    if (error instanceof CircuitOpenError) {
+      this.logger.warn(`${error.message}, ${kind} cached${this.describeRoute(route)}`);
+    } else {
+      this.logger.error(
+        `Failed to send ${kind}${this.describeRoute(route)}: ` + this.getErrorMessage(error),
+        error
+      );
+    }
+  }
 
-    // Add to in-memory cache
-    this.cache.push(cachedReport);
+  /**
+   * Name a route in log messages, when there is more than one
+   */
+  private describeRoute(route: DeliveryRoute): string {
+    return this.routes.length > 1 ? ` for ${route.name}` : '';
+  }
 
-    // Enforce cache size limit
-    if (this.cache.length > this.config.cacheSize) {
-      // Remove oldest entries
-      this.cache = this.cache.slice(-this.config.cacheSize);
-      this.logger.warn(`Cache size limit reached. Removed oldest entries.`);
+  /**
+   * Name the destination that accepted a message, when there is more than one
+   */
+  private describeDestination(destination: Destination): string {
+    return this.getDestinations().length > 1 ? ` to ${destination.name}` : '';
+  }
+
+  /**
+   * Check whether any destination of a route would let a message through now
+   */
+  private canAttempt(route: DeliveryRoute): boolean {
+    return route.destinations.some((destination) => destination.canAttempt());
+  }
+
+  /**
+   * Get the time until the first destination of a route may be retried
+   */
+  private getRetryDelay(route: DeliveryRoute): number {
+    return Math.min(...route.destinations.map((destination) => destination.getRetryDelay()));
+  }
+
+  /**
+   * Retry a route's cache after a delay, unless a retry is already due sooner
+   */
+  private scheduleDrain(route: DeliveryRoute, delay: number): void {
+    const at = Date.now() + delay;
+    if (this.closed || (route.drainTimer && route.drainAt <= at)) {
+      return;
+    }
+    if (route.drainTimer) {
+      clearTimeout(route.drainTimer);
     }
 
-    // Persist cache to disk
-    this.saveCacheToDisk();
-    this.logger.info(`Report cached. Total cached reports: ${this.cache.length}`);
+    route.drainAt = at;
+    route.drainTimer = setTimeout(() => {
+      route.drainTimer = null;
+      this.drain(route).catch((error) => {
+        this.logger.error('Failed to retry cached reports', error);
+      });
+    }, delay);
+    // Do not keep the process alive just to retry
+    route.drainTimer.unref();
+  }
+
+  private cancelDrain(route: DeliveryRoute): void {
+    if (route.drainTimer) {
+      clearTimeout(route.drainTimer);
+      route.drainTimer = null;
+    }
   }
 
   /**
    * Retry sending cached reports
-   * Attempts to send all cached reports to the server
-   * Log errors during retry
+   * Every route's cache is drained independently, see drain()
    */
   async retryCachedReports(): Promise<void> {
-    if (this.cache.length === 0) {
+    await Promise.all(this.routes.map((route) => this.drain(route)));
+  }
+
+  /**
+   * Retry sending the cached reports of one route
+   * Sends cached alerts and events first, then drains cached reports in size-bounded batches,
+   * falling back to single reports for servers that have no batch endpoint
+   * Stops at the first sign that no destination is available and retries after a backoff
+   * delay, so the cache is drained in the background until it is empty
+   * Log errors during retry
+   */
+  private async drain(route: DeliveryRoute): Promise<void> {
+    // Expired entries are not worth sending
+    route.cache.expire();
+    if (route.cache.size() === 0 || route.draining) {
+      return;
+    }
+    if (!this.canAttempt(route)) {
+      this.scheduleDrain(route, this.getRetryDelay(route));
       return;
     }
 
-    this.logger.info(`Retrying ${this.cache.length} cached reports...`);
-    const failedReports: CachedReport[] = [];
+    route.draining = true;
+    this.logger.info(
+      `Retrying ${route.cache.size()} cached reports${this.describeRoute(route)}...`
+    );
 
-    for (const cachedReport of this.cache) {
-      try {
-        // Attempt to send the cached report
-        const response = await axios.post(
-          `${this.config.serverUrl}/api/reports`,
-          cachedReport.payload,
-          {
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            timeout: 10000,
-          }
-        );
+    // Work on a snapshot so entries cached while draining are kept
+    const snapshot = route.cache.list();
+    const messages = [
+      ...snapshot.filter((entry): entry is CachedAlert => entry.kind === 'alert'),
+      ...snapshot.filter((entry): entry is CachedEvent => entry.kind === 'event'),
+    ];
+    const reports = snapshot.filter(
+      (entry): entry is CachedReport => entry.kind !== 'alert' && entry.kind !== 'event'
+    );
+    const settled = new Set<string>();
+    const retried = new Set<CacheEntry>();
+    let unavailable = false;
 
-        if (response.status >= 200 && response.status < 300) {
-          this.logger.info('Cached report sent successfully');
-          // Don't add to failedReports - it succeeded
-        } else {
-          throw new Error(`Server returned status ${response.status}`);
+    // Unavailability ends this round; other failures count against maxRetries
+    const fail = (entries: CacheEntry[], error: unknown) => {
+      if (isRetriable(error)) {
+        unavailable = true;
+      } else {
+        this.markRetryFailed(entries, settled, retried);
+      }
+    };
+
+    try {
+      for (const cached of messages) {
+        if (unavailable) {
+          break;
         }
-      } catch (error) {
-        // Increment retry count
-        cachedReport.retryCount++;
-        // Only keep if under max retries
-        if (cachedReport.retryCount < this.config.maxRetries) {
-          failedReports.push(cachedReport);
-        } else {
-          this.logger.warn(
-            `Dropping cached report after ${this.config.maxRetries} failed attempts`
+        try {
+          const destination = await this.deliver(route, async (d) => {
+            await d.send({ kind: cached.kind, body: cached.payload });
+            return d;
+          });
+          settled.add(cached.id);
+          this.logger.info(
+            `Cached ${cached.kind} sent successfully${this.describeDestination(destination)}`
           );
+        } catch (error) {
+          this.logger.error(`Failed to send cached ${cached.kind}: ` + this.getErrorMessage(error));
+          fail([cached], error);
         }
       }
-    }
 
-    // Update cache with only the failed reports
-    this.cache = failedReports;
-    this.saveCacheToDisk();
+      for (const batch of this.splitIntoBatches(reports)) {
+        if (unavailable) {
+          break;
+        }
+        try {
+          const rejected = await this.deliver(route, (destination) =>
+            this.sendCachedReports(route, destination, batch, settled)
+          );
+          this.markRetryFailed(rejected, settled, retried);
+        } catch (error) {
+          this.logger.error('Failed to send cached reports: ' + this.getErrorMessage(error));
+          fail(
+            batch.filter((entry) => !settled.has(entry.id)),
+            error
+          );
+        }
+      }
+    } finally {
+      // Keep only entries that were neither delivered nor dropped; only the retry
+      // counts that changed are written, not the whole queue
+      route.cache.remove(settled);
+      route.cache.update([...retried].filter((entry) => !settled.has(entry.id)));
+      route.draining = false;
+    }
 
-    if (this.cache.length > 0) {
-      this.logger.info(`${this.cache.length} reports still cached after retry`);
+    if (route.cache.size() > 0) {
+      this.logger.info(
+        `${route.cache.size()} reports still cached after retry${this.describeRoute(route)}`
+      );
+      // Rejected entries are retried with the next report interval
+      this.scheduleDrain(
+        route,
+        unavailable ? this.getRetryDelay(route) : this.config.reportInterval
+      );
     } else {
-      this.logger.info('All cached reports sent successfully');
+      this.logger.info(`All cached reports sent successfully${this.describeRoute(route)}`);
     }
   }
 
   /**
-   * Clear all cached reports
-   * Clear cache after successful report
+   * Increment retry counts of failed entries and mark those over the limit as settled
+   * @param retried Collects the entries whose retry count changed
    */
-  clearCache(): void {
-    if (this.cache.length > 0) {
-      this.cache = [];
-      this.saveCacheToDisk();
-      this.logger.info('Cache cleared');
+  private markRetryFailed(
+    entries: CacheEntry[],
+    settled: Set<string>,
+    retried: Set<CacheEntry>
+  ): void {
+    for (const entry of entries) {
+      entry.retryCount++;
+      retried.add(entry);
+      if (entry.retryCount >= this.config.maxRetries) {
+        settled.add(entry.id);
+        this.logger.warn(`Dropping cached report after ${this.config.maxRetries} failed attempts`);
+      }
     }
   }
 
   /**
-   * Get the number of cached reports
+   * Split cached entries into batches bounded by batchSize and batchMaxBytes
+   * An entry larger than batchMaxBytes is sent in a batch of its own
    */
-  getCacheSize(): number {
-    return this.cache.length;
+  private splitIntoBatches(entries: CachedReport[]): CachedReport[][] {
+    const batches: CachedReport[][] = [];
+    let current: CachedReport[] = [];
+    let currentBytes = 0;
+
+    for (const entry of entries) {
+      const entryBytes = Buffer.byteLength(JSON.stringify(entry.payload), 'utf-8');
+      const full =
+        current.length >= this.config.batchSize ||
+        currentBytes + entryBytes > this.config.batchMaxBytes;
+
+      if (current.length > 0 && full) {
+        batches.push(current);
+        current = [];
+        currentBytes = 0;
+      }
+
+      current.push(entry);
+      currentBytes += entryBytes;
+    }
+
+    if (current.length > 0) {
+      batches.push(current);
+    }
+
+    return batches;
   }
 
   /**
-   * Save cache to disk for persistence
-   * Persist cached data locally
+   * Send cached reports to one destination, as a batch if the server supports it
+   * Delivered entries are added to settled right away, so a failover destination
+   * does not get them again
+   * @returns Entries the server rejected
+   * @throws On the first sign that the destination is unavailable
    */
-  private saveCacheToDisk(): void {
-    try {
-      const cacheDir = path.dirname(this.cacheFilePath);
+  private async sendCachedReports(
+    route: DeliveryRoute,
+    destination: Destination,
+    entries: CachedReport[],
+    settled: Set<string>
+  ): Promise<CachedReport[]> {
+    const pending = entries.filter((entry) => !settled.has(entry.id));
+    if (pending.length === 0) {
+      return [];
+    }
 
-      // Create cache directory if it doesn't exist
-      if (!fs.existsSync(cacheDir)) {
-        fs.mkdirSync(cacheDir, { recursive: true });
+    if (destination.batchSupported) {
+      try {
+        const rejected = await this.sendBatch(route, destination, pending);
+        const rejectedIds = new Set(rejected.map((entry) => entry.id));
+        pending
+          .filter((entry) => !rejectedIds.has(entry.id))
+          .forEach((entry) => settled.add(entry.id));
+        return rejected;
+      } catch (error) {
+        if (!this.isBatchUnsupported(error)) {
+          throw error;
+        }
+        this.logger.warn(
+          `${destination.describe()} does not support batch uploads, sending reports one by one`
+        );
+        destination.batchSupported = false;
+      }
+    }
+
+    const rejected: CachedReport[] = [];
+    for (const cachedReport of pending) {
+      try {
+        await this.sendSingle(route, destination, cachedReport.payload);
+        settled.add(cachedReport.id);
+        this.logger.info(`Cached report sent successfully${this.describeDestination(destination)}`);
+      } catch (error) {
+        if (isRetriable(error)) {
+          throw error;
+        }
+        this.logger.error('Failed to send cached report: ' + this.getErrorMessage(error));
+        rejected.push(cachedReport);
       }
+    }
+    return rejected;
+  }
+
+  /**
+   * Send one batch of cached entries to the batch endpoint
+   * @returns Entries the server did not acknowledge as accepted
+   */
+  private async sendBatch(
+    route: DeliveryRoute,
+    destination: Destination,
+    entries: CachedReport[]
+  ): Promise<CachedReport[]> {
+    const body: BatchPayload = {
+      reports: entries.map((entry) => ({ id: entry.id, payload: entry.payload })),
+    };
+
+    const response = await destination.send({
+      kind: 'batch',
+      body,
+      compress: this.config.batchCompression,
+      timeout: 30000, // 30 second timeout for larger bodies
+    });
+
+    const data = response.data as BatchResponse | undefined;
+    const results = Array.isArray(data?.results) ? data.results : [];
+    const accepted = new Set<string>();
+    for (const result of results) {
+      if (result.accepted) {
+        accepted.add(result.id);
+      } else if (result.error) {
+        this.logger.warn(`Cached report ${result.id} rejected: ${result.error}`);
+      }
+    }
+
+    this.checkResyncRequest(destination, data);
+    this.checkControlMessage(route, data);
+
+    this.logger.info(
+      `Batch sent${this.describeDestination(destination)}: ` +
+        `${accepted.size}/${entries.length} reports accepted`
+    );
+    return entries.filter((entry) => !accepted.has(entry.id));
+  }
 
-      // Write cache to file
-      fs.writeFileSync(this.cacheFilePath, JSON.stringify(this.cache, null, 2), 'utf-8');
+  /**
+   * Send a single report to the report endpoint
+   * Static info is left out if the destination already has it, and attached if it does
+   * not and the report is about the current static info
+   * A 409 answer to a report without static info means the server does not have it;
+   * the report is sent again with the current static info attached
+   */
+  private async sendSingle(
+    route: DeliveryRoute,
+    destination: Destination,
+    payload: ReportPayload
+  ): Promise<void> {
+    if (this.config.sendStaticInfo !== 'always') {
+      const acknowledged = destination.acknowledgedStaticInfoHash === payload.staticInfoHash;
+      if (payload.staticInfo && acknowledged) {
+        payload = { ...payload, staticInfo: undefined };
+      } else if (
+        !payload.staticInfo &&
+        !acknowledged &&
+        this.staticInfo &&
+        payload.staticInfoHash === this.staticInfoHash
+      ) {
+        payload = { ...payload, staticInfo: this.staticInfo };
+      }
+    }
+
+    let response: TransportResponse;
+    try {
+      response = await destination.send({ kind: 'report', body: payload });
     } catch (error) {
-      this.logger.error('Error saving cache to disk', error);
+      if (
+        !(error instanceof TransportError && error.status === 409) ||
+        payload.staticInfo ||
+        !this.staticInfo ||
+        !this.staticInfoHash
+      ) {
+        throw error;
+      }
+      this.logger.info('Server requested static info, resending report with it attached');
+      payload = { ...payload, staticInfo: this.staticInfo, staticInfoHash: this.staticInfoHash };
+      response = await destination.send({ kind: 'report', body: payload });
+    }
+
+    if (payload.staticInfo && payload.staticInfoHash) {
+      destination.acknowledgedStaticInfoHash = payload.staticInfoHash;
+    }
+    this.checkResyncRequest(destination, response.data as ReportResponse | undefined);
+    this.checkControlMessage(route, response.data as ReportResponse | undefined);
+  }
+
+  /**
+   * Attach static info to the next report if the server asked for it
+   */
+  private checkResyncRequest(
+    destination: Destination,
+    data: ReportResponse | BatchResponse | undefined
+  ): void {
+    if (data?.resyncStaticInfo) {
+      this.logger.info('Server requested static info, sending it with the next report');
+      destination.acknowledgedStaticInfoHash = null;
+    }
+  }
+
+  /**
+   * Pass a control message in a response to the control handler
+   * Only the servers of the control route may send control messages
+   */
+  private checkControlMessage(
+    route: DeliveryRoute,
+    data: ReportResponse | BatchResponse | undefined
+  ): void {
+    if (route.control && data?.control && typeof data.control === 'object' && this.controlHandler) {
+      this.controlHandler(data.control);
     }
   }
 
   /**
-   * Load cache from disk
-   * Load persisted cached data on startup
+   * Set the handler for control messages found in report and batch responses
+   */
+  onControlMessage(handler: (message: ControlMessage) => void): void {
+    this.controlHandler = handler;
+  }
+
+  /**
+   * Ask the server for pending config overrides and commands
+   * @param configRevision Revision of the last processed config update
+   * @returns The control message, if the server sent one
+   */
+  async pollControl(configRevision: string | null): Promise<ControlMessage | undefined> {
+    const body: ControlPoll = { clientId: this.clientId, configRevision };
+    const response = await this.deliver(this.getControlRoute(), (destination) =>
+      destination.send({ kind: 'control', body })
+    );
+    const data = response.data as ControlMessage | undefined;
+    return data && typeof data === 'object' ? data : undefined;
+  }
+
+  /**
+   * Acknowledge a processed control message
+   * Not cached on failure; the server sends unacknowledged messages again
+   */
+  async sendControlAck(ack: Omit<ControlAck, 'clientId'>): Promise<void> {
+    const body: ControlAck = { clientId: this.clientId, ...ack };
+    await this.deliver(this.getControlRoute(), (destination) =>
+      destination.send({ kind: 'controlAck', body })
+    );
+  }
+
+  /**
+   * Send diagnostics requested by the server
+   */
+  async sendDiagnostics(payload: DiagnosticsPayload): Promise<void> {
+    await this.deliver(this.getControlRoute(), (destination) =>
+      destination.send({ kind: 'diagnostics', body: payload })
+    );
+  }
+
+  private getControlRoute(): DeliveryRoute {
+    return this.routes.find((route) => route.control) ?? this.routes[0];
+  }
+
+  /**
+   * Get the client identifier
+   */
+  getClientId(): string {
+    return this.clientId;
+  }
+
+  private getDestinations(): Destination[] {
+    return this.routes.flatMap((route) => route.destinations);
+  }
+
+  /**
+   * Get the delivery state of every destination
+   */
+  getDestinationStatus(): DestinationStatus[] {
+    return this.routes.flatMap((route) =>
+      route.destinations.map((destination) => ({
+        name: destination.name,
+        url: destination.url,
+        mode: destination.mode,
+        circuitState: destination.getCircuitState(),
+        failures: destination.getFailures(),
+        cached: route.cache.size(),
+      }))
+    );
+  }
+
+  /**
+   * Check whether an error means the server has no batch endpoint
+   */
+  private isBatchUnsupported(error: unknown): boolean {
+    return (
+      error instanceof TransportError &&
+      error.status !== undefined &&
+      [404, 405, 501].includes(error.status)
+    );
+  }
+
+  /**
+   * Get the number of cached entries (reports, alerts and events) of all destinations
    */
-  private loadCacheFromDisk(): void {
+  getCacheSize(): number {
+    return this.routes.reduce((total, route) => total + route.cache.size(), 0);
+  }
+
+  /**
+   * Move entries cached by older versions from the JSON cache file into the queue
+   * of the failover destinations
+   * An unreadable file is renamed to '<file>.corrupt' and kept for inspection
+   */
+  private migrateLegacyCache(filePath: string): void {
+    if (!fs.existsSync(filePath)) {
+      return;
+    }
+
+    const cache = this.getControlRoute().cache;
     try {
-      if (fs.existsSync(this.cacheFilePath)) {
-        const cacheContent = fs.readFileSync(this.cacheFilePath, 'utf-8');
-        this.cache = JSON.parse(cacheContent) as CachedReport[];
-        this.logger.info(`Loaded ${this.cache.length} cached reports from disk`);
+      const entries = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CacheEntry[];
+      for (const entry of Array.isArray(entries) ? entries : []) {
+        // Entries cached by older versions have no identifier
+        cache.add({ ...entry, id: entry.id || uuidv4() });
       }
+      fs.unlinkSync(filePath);
+      this.logger.info(`Migrated ${cache.size()} cached reports from ${filePath}`);
     } catch (error) {
-      this.logger.error('Error loading cache from disk', error);
-      this.cache = [];
+      this.logger.error(`Error migrating ${filePath}, keeping it as ${filePath}.corrupt`, error);
+      try {
+        fs.renameSync(filePath, `${filePath}.corrupt`);
+      } catch {
+        // Retried on the next start
+      }
     }
   }
 
+  /**
+   * Close the cache files and the transports' connections
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    this.routes.forEach((route) => this.cancelDrain(route));
+    this.queues.forEach((cache) => cache.close());
+    await Promise.all(this.getDestinations().map((destination) => destination.close()));
+  }
+
   /**
    * Extract error message from various error types
    */
   private getErrorMessage(error: unknown): string {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      if (axiosError.response) {
-        return `Server error: ${axiosError.response.status} - ${JSON.stringify(axiosError.response.data)}`;
-      } else if (axiosError.request) {
-        return 'No response from server (network error)';
-      }
-    }
-
     if (error instanceof Error) {
       return error.message;
     }
@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PersistentQueue, QueueEntry, QueueLimits, encodeRecord } from '../PersistentQueue';
+
+interface TestEntry extends QueueEntry {
+  data: string;
+}
+
+const LIMITS: QueueLimits = { maxEntries: 100, maxBytes: 10 * 1024 * 1024, maxAge: 0 };
+
+function entry(id: string, timestamp: number = Date.now(), data: string = ''): TestEntry {
+  return { id, timestamp, data };
+}
+
+function ids(queue: PersistentQueue<TestEntry>): string[] {
+  return queue.list().map(({ id }) => id);
+}
+
+describe('PersistentQueue', () => {
+  let dir: string;
+  let file: string;
+  const open = (limits: QueueLimits = LIMITS) => new PersistentQueue<TestEntry>(file, limits);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'queue-'));
+    file = path.join(dir, 'queue.log');
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps entries, updates and removals across reloads', () => {
+    const queue = open();
+    queue.add(entry('a'));
+    queue.add(entry('b'));
+    queue.add(entry('c'));
+    queue.update([{ ...entry('b'), data: 'changed' }]);
+    queue.remove(['a']);
+    queue.close();
+
+    const reloaded = open();
+    expect(ids(reloaded)).toEqual(['b', 'c']);
+    expect(reloaded.list()[0].data).toBe('changed');
+    reloaded.close();
+  });
+
+  it('discards a truncated last line and keeps the records before it', () => {
+    const complete = encodeRecord({ op: 'put', entry: entry('a') });
+    const torn = encodeRecord({ op: 'put', entry: entry('b') }).slice(0, 30);
+    fs.writeFileSync(file, complete + torn);
+
+    const queue = open();
+    expect(ids(queue)).toEqual(['a']);
+
+    // The torn line is gone from the queue file, so new records are not glued to it
+    queue.add(entry('c'));
+    queue.close();
+    expect(ids(open())).toEqual(['a', 'c']);
+    expect(fs.readFileSync(file, 'utf-8')).not.toContain(torn);
+  });
+
+  it('moves records with a wrong checksum to the quarantine file', () => {
+    const good = encodeRecord({ op: 'put', entry: entry('a') });
+    const bad = encodeRecord({ op: 'put', entry: entry('b') }).replace(/^\w/, (c) =>
+      c === '0' ? '1' : '0'
+    );
+    fs.writeFileSync(file, good + bad + encodeRecord({ op: 'put', entry: entry('c') }));
+
+    const queue = open();
+    queue.close();
+
+    expect(ids(queue)).toEqual(['a', 'c']);
+    expect(fs.readFileSync(`${file}.quarantine`, 'utf-8')).toBe(bad);
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it('evicts the oldest entries once the byte cap is reached', () => {
+    const data = 'x'.repeat(1000);
+    const recordBytes = Buffer.byteLength(encodeRecord({ op: 'put', entry: entry('0', 0, data) }));
+    const queue = open({ ...LIMITS, maxBytes: recordBytes * 3 + 10 });
+
+    for (let i = 0; i < 5; i++) {
+      queue.add(entry(String(i), i, data));
+    }
+    queue.close();
+
+    expect(ids(queue)).toEqual(['2', '3', '4']);
+    expect(queue.bytes()).toBeLessThanOrEqual(recordBytes * 3 + 10);
+    expect(ids(open({ ...LIMITS, maxBytes: recordBytes * 3 + 10 }))).toEqual(['2', '3', '4']);
+  });
+
+  it('expires entries older than maxAge', () => {
+    const now = Date.now();
+    const queue = open({ ...LIMITS, maxAge: 60_000 });
+    queue.add(entry('old', now - 50_000));
+    queue.add(entry('new', now - 10_000));
+
+    queue.expire(now + 20_000);
+    queue.close();
+
+    expect(ids(queue)).toEqual(['new']);
+    expect(ids(open({ ...LIMITS, maxAge: 60_000 }))).toEqual(['new']);
+  });
+
+  it('drops expired entries when loading', () => {
+    const queue = open();
+    queue.add(entry('old', Date.now() - 120_000));
+    queue.add(entry('new'));
+    queue.close();
+
+    expect(ids(open({ ...LIMITS, maxAge: 60_000 }))).toEqual(['new']);
+  });
+
+  it('reloads the same entries after the file is compacted', () => {
+    const data = 'x'.repeat(64 * 1024);
+    const queue = open();
+    for (let i = 0; i < 20; i++) {
+      queue.add(entry(String(i), Date.now(), data));
+    }
+    const before = fs.statSync(file).size;
+
+    // Most of the file would be removed entries, so the removal compacts it instead
+    queue.remove([...Array(18).keys()].map(String));
+    expect(fs.statSync(file).size).toBeLessThan(before / 4);
+    expect(fs.existsSync(`${file}.tmp`)).toBe(false);
+
+    queue.add(entry('last'));
+    queue.close();
+
+    const reloaded = open();
+    expect(ids(reloaded)).toEqual(['18', '19', 'last']);
+    expect(reloaded.list()[0].data).toBe(data);
+  });
+});
@@ -1,2 +1,32 @@
-export { Reporter } from './Reporter';
-export { ReportPayload, CachedReport } from './types';
+export { Reporter, ReporterOptions, hashStaticInfo } from './Reporter';
+export { Destination, isRetriable } from './Destination';
+export {
+  CircuitBreaker,
+  CircuitBreakerOptions,
+  CircuitState,
+  CircuitOpenError,
+  computeBackoff,
+} from './CircuitBreaker';
+export {
+  PersistentQueue,
+  QueueEntry,
+  QueueLimits,
+  QueueRecord,
+  encodeRecord,
+  decodeRecord,
+  readQueueFile,
+} from './PersistentQueue';
+export {
+  ReportPayload,
+  CachedReport,
+  CachedAlert,
+  CachedEvent,
+  StaticInfoChangeEvent,
+  EventPayload,
+  CacheEntry,
+  BatchPayload,
+  BatchResult,
+  BatchResponse,
+  ReportResponse,
+  DestinationStatus,
+} from './types';
@@ -0,0 +1,138 @@
+import axios from 'axios';
+import * as http from 'http';
+import * as zlib from 'zlib';
+import {
+  MessageKind,
+  Transport,
+  TransportError,
+  TransportOptions,
+  TransportRequest,
+  TransportResponse,
+} from './types';
+import {
+  SIGNATURE_HEADER,
+  SIGNATURE_NONCE_HEADER,
+  SIGNATURE_TIMESTAMP_HEADER,
+  createAgent,
+  signRequest,
+} from './security';
+
+const PATHS: Record<MessageKind, string> = {
+  report: '/api/reports',
+  alert: '/api/alerts',
+  event: '/api/events',
+  batch: '/api/reports/batch',
+  control: '/api/control',
+  controlAck: '/api/control/ack',
+  diagnostics: '/api/diagnostics',
+};
+
+/**
+ * Parse a Retry-After header
+ * @param value Delay in seconds or an HTTP date
+ * @param now Current time (Unix milliseconds)
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+  if (/^\s*\d+\s*$/.test(value)) {
+    return Number(value) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * HttpTransport class
+ * Sends each message as an HTTP POST to the matching endpoint.
+ * With a signing secret, the body as sent (after compression) is signed and the
+ * signature is passed in the X-Signature headers.
+ */
+export class HttpTransport implements Transport {
+  readonly name = 'http';
+  private agent: http.Agent | undefined;
+  private agentCreated = false;
+
+  constructor(private options: TransportOptions) {}
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+
+    if (this.options.authToken) {
+      headers['X-Auth-Token'] = this.options.authToken;
+    }
+
+    let data: string | Buffer = JSON.stringify(request.body);
+    if (request.compress) {
+      data = zlib.gzipSync(data);
+      headers['Content-Encoding'] = 'gzip';
+    }
+
+    const path = PATHS[request.kind];
+    if (this.options.signingSecret) {
+      const { timestamp, nonce, signature } = signRequest(this.options.signingSecret, path, data);
+      headers[SIGNATURE_TIMESTAMP_HEADER] = String(timestamp);
+      headers[SIGNATURE_NONCE_HEADER] = nonce;
+      headers[SIGNATURE_HEADER] = signature;
+    }
+
+    try {
+      const agent = this.getAgent();
+      const response = await axios.post(`${this.options.serverUrl}${path}`, data, {
+        headers,
+        timeout: request.timeout ?? 10000, // 10 second timeout
+        httpAgent: agent,
+        httpsAgent: agent,
+        proxy: false, // Proxies are applied by the agent
+      });
+
+      if (response.status < 200 || response.status >= 300) {
+        throw new TransportError(`Server returned status ${response.status}`, response.status);
+      }
+
+      return { status: response.status, data: response.data };
+    } catch (error) {
+      if (error instanceof TransportError) {
+        throw error;
+      }
+      if (axios.isAxiosError(error)) {
+        if (error.response) {
+          throw new TransportError(
+            `Server error: ${error.response.status} - ${JSON.stringify(error.response.data)}`,
+            error.response.status,
+            error.response.data,
+            [429, 503].includes(error.response.status)
+              ? parseRetryAfter(error.response.headers['retry-after'])
+              : undefined
+          );
+        }
+        if (error.request) {
+          throw new TransportError(`No response from server (${error.message})`);
+        }
+      }
+      throw new TransportError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  async close(): Promise<void> {
+    this.agent?.destroy();
+    this.agent = undefined;
+    this.agentCreated = false;
+  }
+
+  /**
+   * Create the agent on first use, so unreadable certificate files fail the request
+   * instead of the client
+   */
+  private getAgent(): http.Agent | undefined {
+    if (!this.agentCreated) {
+      this.agent = createAgent(this.options.serverUrl, this.options.tls, this.options.proxy);
+      this.agentCreated = true;
+    }
+    return this.agent;
+  }
+}
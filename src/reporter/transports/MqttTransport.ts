@@ -0,0 +1,167 @@
+import * as mqtt from 'mqtt';
+import {
+  Transport,
+  TransportError,
+  TransportOptions,
+  TransportRequest,
+  TransportResponse,
+} from './types';
+import { isSocksProxy, loadTlsOptions, resolveProxy, signRequest } from './security';
+
+/**
+ * MqttTransport class
+ * Publishes each message with QoS 1 to a topic built from the configured template;
+ * a message counts as delivered once the broker acknowledges it within the request timeout.
+ * Batches are not supported, so the Reporter falls back to single messages.
+ * Nothing is received, so control messages cannot be polled.
+ * The broker authenticates the connection (token as password, or a client certificate).
+ * With a signing secret, each message is {"payload", "timestamp", "nonce", "signature"}
+ * instead of the bare JSON, with the signature computed over the topic and the JSON text
+ * in "payload". Only SOCKS proxies are supported.
+ */
+export class MqttTransport implements Transport {
+  readonly name = 'mqtt';
+  private client: mqtt.MqttClient | null = null;
+  private connecting: Promise<mqtt.MqttClient> | null = null;
+
+  constructor(private options: TransportOptions) {}
+
+  /**
+   * Build the topic for a message type
+   * Supported placeholders: {clientId}, {type}
+   */
+  getTopic(type: string): string {
+    return this.options.mqttTopic
+      .replace(/\{clientId\}/g, this.options.clientId)
+      .replace(/\{type\}/g, type);
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    if (request.kind === 'batch') {
+      throw new TransportError('Batches are not supported over MQTT', 501);
+    }
+    if (request.kind === 'control') {
+      throw new TransportError('Polling for control messages is not supported over MQTT', 501);
+    }
+
+    const topic = this.getTopic(request.kind);
+    const message = this.encode(topic, request.body);
+    const client = await this.connect();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => {
+        reject(new TransportError('No response from broker (timeout)'));
+        // The broker may never acknowledge; drop the connection so the publish ends
+        if (this.client === client) {
+          this.client = null;
+        }
+        client.end(true);
+      }, request.timeout ?? 10000);
+    });
+
+    try {
+      await Promise.race([client.publishAsync(topic, message, { qos: 1 }), timeout]);
+      return { status: 200 };
+    } catch (error) {
+      if (error instanceof TransportError) {
+        throw error;
+      }
+      throw new TransportError(
+        `Failed to publish: ${error instanceof Error ? error.message : String(error)}`
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Encode a message body, wrapped with its signature when a signing secret is set
+   */
+  private encode(topic: string, body: unknown): string {
+    const payload = JSON.stringify(body);
+    if (!this.options.signingSecret) {
+      return payload;
+    }
+    return JSON.stringify({
+      payload,
+      ...signRequest(this.options.signingSecret, topic, payload),
+    });
+  }
+
+  async close(): Promise<void> {
+    const client = this.client;
+    this.client = null;
+    this.connecting = null;
+    if (client) {
+      await client.endAsync(true);
+    }
+  }
+
+  /**
+   * Return the connected client, connecting first if needed
+   * Automatic reconnects are disabled; the Reporter decides when to retry
+   */
+  private connect(): Promise<mqtt.MqttClient> {
+    if (this.client && this.client.connected) {
+      return Promise.resolve(this.client);
+    }
+    if (this.connecting) {
+      return this.connecting;
+    }
+
+    const stale = this.client;
+    this.client = null;
+    stale?.end(true);
+
+    let options: mqtt.IClientOptions;
+    try {
+      options = this.getConnectOptions();
+    } catch (error) {
+      return Promise.reject(
+        new TransportError(error instanceof Error ? error.message : String(error))
+      );
+    }
+
+    this.connecting = mqtt
+      .connectAsync(this.options.serverUrl, options)
+      .then((client) => {
+        this.client = client;
+        this.connecting = null;
+        return client;
+      })
+      .catch((error: unknown) => {
+        this.connecting = null;
+        throw new TransportError(
+          `No response from broker (${error instanceof Error ? error.message : String(error)})`
+        );
+      });
+
+    return this.connecting;
+  }
+
+  /**
+   * Build the connect options, reading certificate files for mqtts:// URLs
+   */
+  private getConnectOptions(): mqtt.IClientOptions {
+    const options: mqtt.IClientOptions = {
+      clientId: `status-client-${this.options.clientId}`,
+      username: this.options.clientId,
+      password: this.options.authToken || undefined,
+      connectTimeout: 10000,
+      reconnectPeriod: 0,
+    };
+
+    if (/^mqtts:/i.test(this.options.serverUrl)) {
+      Object.assign(options, loadTlsOptions(this.options.tls));
+    }
+
+    const proxy = resolveProxy(this.options.serverUrl, this.options.proxy);
+    if (proxy && isSocksProxy(proxy)) {
+      options.socksProxy = proxy;
+    } else if (proxy && this.options.proxy) {
+      throw new Error(`MQTT connections only support SOCKS proxies, not ${proxy}`);
+    }
+
+    return options;
+  }
+}
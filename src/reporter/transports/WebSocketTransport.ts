@@ -0,0 +1,201 @@
+import * as http from 'http';
+import WebSocket from 'ws';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Transport,
+  TransportError,
+  TransportOptions,
+  TransportRequest,
+  TransportResponse,
+} from './types';
+import { createAgent, signRequest } from './security';
+
+/**
+ * Reply sent by the server for every message
+ */
+interface WebSocketReply {
+  id: string;
+  status: number;
+  data?: unknown;
+}
+
+interface PendingRequest {
+  resolve: (response: TransportResponse) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * WebSocketTransport class
+ * Keeps one persistent connection to <serverUrl>/api/ws and sends each message as
+ * {"id", "type", "payload"}; the server answers with {"id", "status", "data"}.
+ * With a signing secret, every message also carries "timestamp", "nonce" and
+ * "signature", computed over the type and the JSON text of the payload, and "payload"
+ * is that JSON text as a string, so the server verifies exactly the signed bytes.
+ */
+export class WebSocketTransport implements Transport {
+  readonly name = 'websocket';
+  private socket: WebSocket | null = null;
+  private connecting: Promise<WebSocket> | null = null;
+  private pending = new Map<string, PendingRequest>();
+  private agent: http.Agent | undefined;
+  private agentCreated = false;
+
+  constructor(private options: TransportOptions) {}
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const socket = await this.connect();
+    const id = uuidv4();
+    const payload = JSON.stringify(request.body);
+    const signature = this.options.signingSecret
+      ? signRequest(this.options.signingSecret, request.kind, payload)
+      : undefined;
+    const message = JSON.stringify({
+      id,
+      type: request.kind,
+      payload: signature ? payload : request.body,
+      ...signature,
+    });
+
+    return new Promise<TransportResponse>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new TransportError('No response from server (timeout)'));
+      }, request.timeout ?? 10000);
+
+      this.pending.set(id, { resolve, reject, timer });
+      socket.send(message, (error) => {
+        if (error) {
+          this.settle(id, new TransportError(`Failed to send message: ${error.message}`));
+        }
+      });
+    });
+  }
+
+  async close(): Promise<void> {
+    const socket = this.socket;
+    this.socket = null;
+    this.connecting = null;
+    this.rejectAll(new TransportError('Transport closed'));
+    socket?.close();
+    this.agent?.destroy();
+    this.agent = undefined;
+    this.agentCreated = false;
+  }
+
+  /**
+   * Return the open socket, connecting first if needed
+   */
+  private connect(): Promise<WebSocket> {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      return Promise.resolve(this.socket);
+    }
+    if (this.connecting) {
+      return this.connecting;
+    }
+
+    const url = this.options.serverUrl.replace(/^http/, 'ws') + '/api/ws';
+    const headers: Record<string, string> = {};
+    if (this.options.authToken) {
+      headers['X-Auth-Token'] = this.options.authToken;
+    }
+
+    let agent: http.Agent | undefined;
+    try {
+      agent = this.getAgent();
+    } catch (error) {
+      return Promise.reject(
+        new TransportError(error instanceof Error ? error.message : String(error))
+      );
+    }
+
+    this.connecting = new Promise<WebSocket>((resolve, reject) => {
+      const socket = new WebSocket(url, { headers, handshakeTimeout: 10000, agent });
+
+      socket.once('open', () => {
+        this.socket = socket;
+        this.connecting = null;
+        resolve(socket);
+      });
+      socket.once('unexpected-response', (_req, res) => {
+        this.connecting = null;
+        reject(new TransportError(`Server error: ${res.statusCode}`, res.statusCode));
+        socket.terminate();
+      });
+      socket.on('error', (error) => {
+        if (this.connecting) {
+          this.connecting = null;
+          reject(new TransportError(`No response from server (${error.message})`));
+        }
+      });
+      socket.on('message', (data) => this.handleMessage(data.toString()));
+      socket.on('close', () => {
+        if (this.socket === socket) {
+          this.socket = null;
+        }
+        this.rejectAll(new TransportError('Connection closed by server'));
+      });
+    });
+
+    return this.connecting;
+  }
+
+  /**
+   * Create the agent on first use, so unreadable certificate files fail the request
+   * instead of the client
+   */
+  private getAgent(): http.Agent | undefined {
+    if (!this.agentCreated) {
+      this.agent = createAgent(this.options.serverUrl, this.options.tls, this.options.proxy);
+      this.agentCreated = true;
+    }
+    return this.agent;
+  }
+
+  private handleMessage(raw: string): void {
+    let reply: WebSocketReply;
+    try {
+      reply = JSON.parse(raw) as WebSocketReply;
+    } catch {
+      return;
+    }
+
+    if (!reply || typeof reply.id !== 'string') {
+      return;
+    }
+
+    if (reply.status >= 200 && reply.status < 300) {
+      this.settle(reply.id, { status: reply.status, data: reply.data });
+    } else {
+      this.settle(
+        reply.id,
+        new TransportError(
+          `Server error: ${reply.status} - ${JSON.stringify(reply.data)}`,
+          reply.status,
+          reply.data
+        )
+      );
+    }
+  }
+
+  private settle(id: string, result: TransportResponse | Error): void {
+    const request = this.pending.get(id);
+    if (!request) {
+      return;
+    }
+
+    this.pending.delete(id);
+    clearTimeout(request.timer);
+    if (result instanceof Error) {
+      request.reject(result);
+    } else {
+      request.resolve(result);
+    }
+  }
+
+  private rejectAll(error: Error): void {
+    for (const id of [...this.pending.keys()]) {
+      this.settle(id, error);
+    }
+  }
+}
@@ -0,0 +1,151 @@
+import * as net from 'net';
+import Aedes, { AedesOptions, AedesPublishPacket, createBroker } from 'aedes';
+import { MqttTransport } from '../MqttTransport';
+import { computeSignature } from '../security';
+import { TransportError, TransportOptions } from '../types';
+
+/**
+ * In-process MQTT broker on a random local port
+ */
+class TestBroker {
+  readonly published: AedesPublishPacket[] = [];
+
+  private constructor(
+    private broker: Aedes,
+    private server: net.Server
+  ) {
+    broker.on('publish', (packet, client) => {
+      if (client) {
+        this.published.push(packet);
+      }
+    });
+  }
+
+  static start(options: AedesOptions = {}): Promise<TestBroker> {
+    const broker = createBroker(options);
+    const server = net.createServer(broker.handle);
+    return new Promise((resolve) => {
+      server.listen(0, '127.0.0.1', () => resolve(new TestBroker(broker, server)));
+    });
+  }
+
+  get url(): string {
+    return `mqtt://127.0.0.1:${(this.server.address() as net.AddressInfo).port}`;
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => {
+      this.broker.close(() => this.server.close(() => resolve()));
+    });
+  }
+}
+
+describe('MqttTransport', () => {
+  let broker: TestBroker;
+  let transport: MqttTransport;
+
+  const createTransport = (options: Partial<TransportOptions> = {}) =>
+    new MqttTransport({
+      serverUrl: broker.url,
+      clientId: 'client-1',
+      authToken: 'secret-token',
+      mqttTopic: 'status/{clientId}/{type}',
+      ...options,
+    });
+
+  afterEach(async () => {
+    await transport?.close();
+    await broker.close();
+  });
+
+  it('publishes each message with QoS 1 to its topic', async () => {
+    let credentials: [string | undefined, string | undefined] | undefined;
+    broker = await TestBroker.start({
+      authenticate: (_client, username, password, done) => {
+        credentials = [username, password?.toString()];
+        done(null, true);
+      },
+    });
+    transport = createTransport();
+
+    await expect(transport.send({ kind: 'report', body: { cpu: 12 } })).resolves.toEqual({
+      status: 200,
+    });
+    await transport.send({ kind: 'alert', body: { level: 'warn' } });
+
+    expect(credentials).toEqual(['client-1', 'secret-token']);
+    expect(
+      broker.published.map(({ topic, qos, payload }) => ({
+        topic,
+        qos,
+        body: JSON.parse(payload.toString()),
+      }))
+    ).toEqual([
+      { topic: 'status/client-1/report', qos: 1, body: { cpu: 12 } },
+      { topic: 'status/client-1/alert', qos: 1, body: { level: 'warn' } },
+    ]);
+  });
+
+  it('wraps signed messages with the signature of the topic and JSON text', async () => {
+    broker = await TestBroker.start();
+    transport = createTransport({ signingSecret: 'hmac-key' });
+
+    await transport.send({ kind: 'report', body: { cpu: 12 } });
+
+    const [{ topic, payload }] = broker.published;
+    const message = JSON.parse(payload.toString());
+    expect(JSON.parse(message.payload)).toEqual({ cpu: 12 });
+    expect(message.signature).toBe(
+      computeSignature('hmac-key', message.timestamp, message.nonce, topic, message.payload)
+    );
+  });
+
+  it('rejects batches and control polling without connecting', async () => {
+    broker = await TestBroker.start();
+    transport = createTransport();
+
+    await expect(transport.send({ kind: 'batch', body: [] })).rejects.toMatchObject({
+      status: 501,
+    });
+    await expect(transport.send({ kind: 'control', body: {} })).rejects.toMatchObject({
+      status: 501,
+    });
+  });
+
+  it('rejects when the broker refuses the connection', async () => {
+    broker = await TestBroker.start({
+      authenticate: (_client, _username, _password, done) => done(null, false),
+    });
+    transport = createTransport();
+
+    const error = await transport.send({ kind: 'report', body: {} }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TransportError);
+    expect((error as Error).message).toMatch(/^No response from broker/);
+  });
+
+  it('gives up on a publish the broker does not acknowledge within the timeout', async () => {
+    let acknowledge = false;
+    broker = await TestBroker.start({
+      authorizePublish: (_client, _packet, callback) => {
+        if (acknowledge) {
+          callback(null);
+        }
+      },
+    });
+    transport = createTransport();
+
+    await expect(transport.send({ kind: 'report', body: {}, timeout: 200 })).rejects.toThrow(
+      'No response from broker (timeout)'
+    );
+
+    // The stuck connection was dropped, so the next message reconnects
+    acknowledge = true;
+    await expect(transport.send({ kind: 'report', body: { retry: true } })).resolves.toEqual({
+      status: 200,
+    });
+    expect(broker.published.map(({ payload }) => JSON.parse(payload.toString()))).toEqual([
+      { retry: true },
+    ]);
+  });
+});
@@ -0,0 +1,163 @@
+import { AddressInfo } from 'net';
+import { IncomingMessage } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { WebSocketTransport } from '../WebSocketTransport';
+import { computeSignature } from '../security';
+import { TransportError, TransportOptions } from '../types';
+
+interface ReceivedMessage {
+  id: string;
+  type: string;
+  payload: unknown;
+  timestamp?: number;
+  nonce?: string;
+  signature?: string;
+}
+
+/**
+ * In-process WebSocket server answering every message with the reply built by `respond`
+ */
+class TestServer {
+  readonly messages: ReceivedMessage[] = [];
+  readonly upgrades: IncomingMessage[] = [];
+  respond: (message: ReceivedMessage) => object | undefined = (message) => ({
+    id: message.id,
+    status: 200,
+    data: { ok: true },
+  });
+
+  private constructor(private server: WebSocketServer) {
+    server.on('connection', (socket: WebSocket, request: IncomingMessage) => {
+      this.upgrades.push(request);
+      socket.on('message', (data) => {
+        const message = JSON.parse(data.toString()) as ReceivedMessage;
+        this.messages.push(message);
+        const reply = this.respond(message);
+        if (reply) {
+          socket.send(JSON.stringify(reply));
+        }
+      });
+    });
+  }
+
+  static start(verifyClient?: (info: { req: IncomingMessage }) => boolean): Promise<TestServer> {
+    return new Promise((resolve) => {
+      const server: WebSocketServer = new WebSocketServer(
+        { host: '127.0.0.1', port: 0, verifyClient },
+        () => resolve(new TestServer(server))
+      );
+    });
+  }
+
+  get url(): string {
+    return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  close(): Promise<void> {
+    for (const client of this.server.clients) {
+      client.terminate();
+    }
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+}
+
+describe('WebSocketTransport', () => {
+  let server: TestServer;
+  let transport: WebSocketTransport;
+
+  const createTransport = (options: Partial<TransportOptions> = {}) =>
+    new WebSocketTransport({
+      serverUrl: server.url,
+      clientId: 'client-1',
+      authToken: 'secret-token',
+      mqttTopic: 'status/{clientId}/{type}',
+      ...options,
+    });
+
+  beforeEach(async () => {
+    server = await TestServer.start();
+  });
+
+  afterEach(async () => {
+    await transport?.close();
+    await server.close();
+  });
+
+  it('sends messages over one authenticated connection and resolves with the reply', async () => {
+    transport = createTransport();
+
+    const first = await transport.send({ kind: 'report', body: { cpu: 12 } });
+    const second = await transport.send({ kind: 'alert', body: { level: 'warn' } });
+
+    expect(first).toEqual({ status: 200, data: { ok: true } });
+    expect(second.status).toBe(200);
+    expect(server.upgrades).toHaveLength(1);
+    expect(server.upgrades[0].url).toBe('/api/ws');
+    expect(server.upgrades[0].headers['x-auth-token']).toBe('secret-token');
+    expect(server.messages.map(({ type, payload }) => ({ type, payload }))).toEqual([
+      { type: 'report', payload: { cpu: 12 } },
+      { type: 'alert', payload: { level: 'warn' } },
+    ]);
+    expect(server.messages[0].signature).toBeUndefined();
+  });
+
+  it('sends the signed JSON text as the payload of signed messages', async () => {
+    transport = createTransport({ signingSecret: 'hmac-key' });
+
+    await transport.send({ kind: 'report', body: { cpu: 12, tags: ['a'] } });
+
+    const [message] = server.messages;
+    expect(typeof message.payload).toBe('string');
+    expect(JSON.parse(message.payload as string)).toEqual({ cpu: 12, tags: ['a'] });
+    expect(message.signature).toBe(
+      computeSignature(
+        'hmac-key',
+        message.timestamp as number,
+        message.nonce as string,
+        'report',
+        message.payload as string
+      )
+    );
+  });
+
+  it('rejects with the status and data of an error reply', async () => {
+    transport = createTransport();
+    server.respond = (message) => ({ id: message.id, status: 429, data: { error: 'slow down' } });
+
+    const error = await transport.send({ kind: 'report', body: {} }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TransportError);
+    expect(error).toMatchObject({ status: 429, data: { error: 'slow down' } });
+  });
+
+  it('rejects when the server does not reply within the timeout', async () => {
+    transport = createTransport();
+    server.respond = () => undefined;
+
+    await expect(transport.send({ kind: 'report', body: {}, timeout: 100 })).rejects.toThrow(
+      'No response from server (timeout)'
+    );
+  });
+
+  it('rejects with the status of a refused upgrade', async () => {
+    await server.close();
+    server = await TestServer.start(() => false);
+    transport = createTransport();
+
+    const error = await transport.send({ kind: 'report', body: {} }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TransportError);
+    expect((error as TransportError).status).toBe(401);
+  });
+
+  it('rejects pending messages when the server closes the connection', async () => {
+    transport = createTransport();
+    server.respond = () => undefined;
+
+    const pending = transport.send({ kind: 'report', body: {}, timeout: 5000 });
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await server.close();
+
+    await expect(pending).rejects.toThrow('Connection closed by server');
+  });
+});
@@ -0,0 +1,53 @@
+import { HttpTransport } from './HttpTransport';
+import { WebSocketTransport } from './WebSocketTransport';
+import { MqttTransport } from './MqttTransport';
+import { Transport, TransportOptions } from './types';
+import { TransportType } from '../../config';
+
+/**
+ * Determine the transport type from an explicit setting or the server URL scheme
+ * @param serverUrl Server endpoint URL
+ * @param explicit Configured transport type, if any
+ */
+export function resolveTransportType(serverUrl: string, explicit?: TransportType): TransportType {
+  if (explicit) {
+    return explicit;
+  }
+
+  const scheme = serverUrl.split(':')[0].toLowerCase();
+  if (scheme === 'ws' || scheme === 'wss') {
+    return 'websocket';
+  }
+  if (scheme === 'mqtt' || scheme === 'mqtts') {
+    return 'mqtt';
+  }
+  return 'http';
+}
+
+/**
+ * Create a transport
+ * @param type Transport type
+ * @param options Transport options
+ */
+export function createTransport(type: TransportType, options: TransportOptions): Transport {
+  switch (type) {
+    case 'websocket':
+      return new WebSocketTransport(options);
+    case 'mqtt':
+      return new MqttTransport(options);
+    default:
+      return new HttpTransport(options);
+  }
+}
+
+export { HttpTransport, WebSocketTransport, MqttTransport };
+export { parseRetryAfter } from './HttpTransport';
+export { computeSignature, signRequest, publicKeyPin, resolveProxy } from './security';
+export {
+  Transport,
+  TransportOptions,
+  TransportRequest,
+  TransportResponse,
+  TransportError,
+  MessageKind,
+} from './types';
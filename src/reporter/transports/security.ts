@@ -0,0 +1,260 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as tls from 'tls';
+import { v4 as uuidv4 } from 'uuid';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import { SocksProxyAgent } from 'socks-proxy-agent';
+import { TlsConfig } from '../../config';
+
+/**
+ * Headers carrying a request signature
+ */
+export const SIGNATURE_HEADER = 'X-Signature';
+export const SIGNATURE_TIMESTAMP_HEADER = 'X-Signature-Timestamp';
+export const SIGNATURE_NONCE_HEADER = 'X-Signature-Nonce';
+
+/**
+ * Signature of one request
+ */
+export interface RequestSignature {
+  timestamp: number; // Unix seconds
+  nonce: string; // Unique per request
+  signature: string; // 'sha256=<hex>'
+}
+
+/**
+ * Compute the HMAC-SHA256 signature of a request
+ * The signed text is '<timestamp>\n<nonce>\n<target>\n<body>', so a signature cannot be
+ * replayed against another endpoint, and servers can reject old timestamps and
+ * nonces they have seen
+ * @param target Request path for HTTP, message type for WebSocket
+ * @param body Bytes as sent
+ */
+export function computeSignature(
+  secret: string,
+  timestamp: number,
+  nonce: string,
+  target: string,
+  body: string | Buffer
+): string {
+  const hmac = crypto.createHmac('sha256', secret);
+  hmac.update(`${timestamp}\n${nonce}\n${target}\n`);
+  hmac.update(body);
+  return `sha256=${hmac.digest('hex')}`;
+}
+
+/**
+ * Sign a request with a fresh timestamp and nonce
+ */
+export function signRequest(
+  secret: string,
+  target: string,
+  body: string | Buffer,
+  now: number = Date.now()
+): RequestSignature {
+  const timestamp = Math.floor(now / 1000);
+  const nonce = uuidv4();
+  return { timestamp, nonce, signature: computeSignature(secret, timestamp, nonce, target, body) };
+}
+
+/**
+ * Hash of a public key in the pin format 'sha256/<base64>'
+ * @param publicKey DER-encoded public key, as in PeerCertificate.pubkey
+ */
+export function publicKeyPin(publicKey: Buffer): string {
+  return `sha256/${crypto.createHash('sha256').update(publicKey).digest('base64')}`;
+}
+
+/**
+ * Check whether a certificate chain contains a pinned public key
+ * Pins are accepted with or without the 'sha256/' prefix
+ */
+export function matchesPin(cert: tls.PeerCertificate, pins: string[]): boolean {
+  const expected = new Set(pins.map((pin) => (pin.startsWith('sha256/') ? pin : `sha256/${pin}`)));
+  const seen = new Set<tls.PeerCertificate>();
+  let current: tls.PeerCertificate | undefined = cert;
+
+  // Walk up the chain so an intermediate or root key can be pinned too
+  while (current && !seen.has(current)) {
+    seen.add(current);
+    if (current.pubkey && expected.has(publicKeyPin(current.pubkey))) {
+      return true;
+    }
+    current = (current as tls.DetailedPeerCertificate).issuerCertificate;
+  }
+  return false;
+}
+
+/**
+ * Build TLS connection options from the configuration
+ * Certificate and key files are read right away
+ * @throws Error if a file cannot be read, or pins are set with rejectUnauthorized false
+ */
+export function loadTlsOptions(config: TlsConfig | undefined): tls.ConnectionOptions {
+  const options: tls.ConnectionOptions = {
+    rejectUnauthorized: config?.rejectUnauthorized !== false,
+  };
+  if (!config) {
+    return options;
+  }
+
+  if (config.ca) {
+    options.ca = fs.readFileSync(config.ca);
+  }
+  if (config.cert) {
+    options.cert = fs.readFileSync(config.cert);
+  }
+  if (config.key) {
+    options.key = fs.readFileSync(config.key);
+  }
+  if (config.passphrase) {
+    options.passphrase = config.passphrase;
+  }
+
+  const pins = config.pinnedPublicKeys ?? [];
+  if (pins.length > 0) {
+    // Node only calls checkServerIdentity for chains that passed verification, and
+    // ignores its result when rejectUnauthorized is false, so pins need verification on
+    if (config.rejectUnauthorized === false) {
+      throw new Error('tls.pinnedPublicKeys cannot be used with rejectUnauthorized false');
+    }
+    options.checkServerIdentity = (host, cert) => {
+      const error = tls.checkServerIdentity(host, cert);
+      if (error) {
+        return error;
+      }
+      if (!matchesPin(cert, pins)) {
+        return new Error(`Certificate of ${host} does not match any pinned public key`);
+      }
+      return undefined;
+    };
+  }
+
+  return options;
+}
+
+/**
+ * Check whether a host is excluded from proxying by a NO_PROXY list
+ * Entries are host names, domain suffixes ('.example.com' or '*.example.com'),
+ * optionally with a port, or '*' for every host
+ */
+function isNoProxy(url: URL, noProxy: string): boolean {
+  const host = url.hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+  const port = url.port || (/^(https|wss|mqtts)/.test(url.protocol) ? '443' : '80');
+
+  return noProxy
+    .split(/[\s,]+/)
+    .filter((entry) => entry !== '')
+    .some((entry) => {
+      if (entry === '*') {
+        return true;
+      }
+      const match = /^(.*?)(?::(\d+))?$/.exec(entry.toLowerCase());
+      const domain = (match?.[1] ?? '').replace(/^\*/, '');
+      if (match?.[2] && match[2] !== port) {
+        return false;
+      }
+      return domain.startsWith('.')
+        ? host.endsWith(domain) || host === domain.slice(1)
+        : host === domain;
+    });
+}
+
+/**
+ * Determine the proxy for a server URL
+ * A configured proxy is used as is; otherwise HTTPS_PROXY (secure schemes), HTTP_PROXY
+ * and ALL_PROXY are read from the environment, honouring NO_PROXY
+ * @returns Proxy URL, or undefined to connect directly
+ */
+export function resolveProxy(
+  serverUrl: string,
+  configured?: string,
+  env: NodeJS.ProcessEnv = process.env
+): string | undefined {
+  if (configured) {
+    return configured;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(serverUrl);
+  } catch {
+    return undefined;
+  }
+
+  const read = (name: string): string | undefined => env[name] || env[name.toLowerCase()];
+  const secure = /^(https|wss|mqtts):$/.test(url.protocol);
+  const proxy = (secure ? read('HTTPS_PROXY') : read('HTTP_PROXY')) || read('ALL_PROXY');
+  if (!proxy || isNoProxy(url, read('NO_PROXY') ?? '')) {
+    return undefined;
+  }
+  return proxy;
+}
+
+/**
+ * Check whether a proxy URL points to a SOCKS proxy
+ */
+export function isSocksProxy(proxy: string): boolean {
+  return /^socks[45]?[ah]?:/i.test(proxy);
+}
+
+/**
+ * HTTP CONNECT proxy agent that applies TLS options to the tunnelled connection
+ * The proxy agents only pass request options on, which axios does not set
+ */
+class TlsHttpsProxyAgent extends HttpsProxyAgent<string> {
+  constructor(
+    proxy: string,
+    private tlsOptions: tls.ConnectionOptions
+  ) {
+    super(proxy);
+  }
+
+  connect(...[req, opts]: Parameters<HttpsProxyAgent<string>['connect']>) {
+    return super.connect(req, { ...opts, ...this.tlsOptions });
+  }
+}
+
+/**
+ * SOCKS proxy agent that applies TLS options to the tunnelled connection
+ */
+class TlsSocksProxyAgent extends SocksProxyAgent {
+  constructor(
+    proxy: string,
+    private tlsOptions: tls.ConnectionOptions
+  ) {
+    super(proxy);
+  }
+
+  connect(...[req, opts]: Parameters<SocksProxyAgent['connect']>) {
+    return super.connect(req, { ...opts, ...this.tlsOptions });
+  }
+}
+
+/**
+ * Create the agent for HTTP and WebSocket connections to a server
+ * Applies the TLS settings to https/wss URLs and routes through the proxy, if any
+ * @returns The agent, or undefined to use Node's default agent
+ * @throws Error if a certificate or key file cannot be read
+ */
+export function createAgent(
+  serverUrl: string,
+  config: TlsConfig | undefined,
+  proxy?: string
+): http.Agent | undefined {
+  const secure = /^(https|wss):/i.test(serverUrl);
+  const tlsOptions = secure ? loadTlsOptions(config) : {};
+  const proxyUrl = resolveProxy(serverUrl, proxy);
+
+  if (proxyUrl) {
+    return isSocksProxy(proxyUrl)
+      ? new TlsSocksProxyAgent(proxyUrl, tlsOptions)
+      : new TlsHttpsProxyAgent(proxyUrl, tlsOptions);
+  }
+  if (secure) {
+    return new https.Agent({ ...tlsOptions, keepAlive: true });
+  }
+  return undefined;
+}
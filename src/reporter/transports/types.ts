@@ -0,0 +1,81 @@
+import { TlsConfig } from '../../config';
+
+/**
+ * Kind of message sent through a transport
+ */
+export type MessageKind =
+  | 'report'
+  | 'alert'
+  | 'event'
+  | 'batch'
+  | 'control'
+  | 'controlAck'
+  | 'diagnostics';
+
+/**
+ * Transport request
+ * The body is a plain object; transports serialize it themselves
+ */
+export interface TransportRequest {
+  kind: MessageKind;
+  body: unknown;
+  compress?: boolean; // Hint to compress the body where the transport supports it
+  timeout?: number; // Request timeout in milliseconds
+}
+
+/**
+ * Transport response
+ */
+export interface TransportResponse {
+  status: number; // HTTP-style status code
+  data?: unknown; // Response body, if any
+}
+
+/**
+ * Options shared by all transports
+ */
+export interface TransportOptions {
+  serverUrl: string; // Server endpoint URL
+  clientId: string; // Client unique identifier
+  authToken?: string; // Authentication token for server validation
+  mqttTopic: string; // MQTT topic template
+  signingSecret?: string; // Key for HMAC-SHA256 request signatures
+  tls?: TlsConfig; // Client certificate, CA bundle and pinning for secure URLs
+  proxy?: string; // Proxy URL (default: from the environment)
+}
+
+/**
+ * Transport interface
+ * Delivers messages to the server; caching and retry are handled by the Reporter
+ */
+export interface Transport {
+  readonly name: string;
+
+  /**
+   * Send a message and wait for the server to acknowledge it
+   * @throws TransportError on failure
+   */
+  send(request: TransportRequest): Promise<TransportResponse>;
+
+  /**
+   * Release connections held by the transport
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Error raised by transports
+ * Carries the server status code when the server answered, and the delay the
+ * server asked for (Retry-After) in milliseconds
+ */
+export class TransportError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly data?: unknown,
+    public readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'TransportError';
+  }
+}
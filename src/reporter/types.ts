@@ -1,4 +1,10 @@
-import { StaticSystemInfo, DynamicSystemStatus } from '../collector';
+import { StaticSystemInfo, DynamicSystemStatus, StaticInfoChange } from '../collector';
+import { AlertPayload } from '../alerts';
+import { ProbeResult } from '../probes';
+import { AgentHealth } from '../health';
+import { ControlMessage } from '../control';
+import { DestinationMode } from '../config';
+import { CircuitState } from './CircuitBreaker';
 
 /**
  * Report payload interface
@@ -12,8 +18,11 @@ export interface ReportPayload {
   clientPurpose: string; // Client purpose description
   hostname: string; // System hostname
   platform: string; // Operating system type (windows, linux, darwin)
-  staticInfo: StaticSystemInfo; // Static system information
+  staticInfo?: StaticSystemInfo; // Static system information (first report and on change)
+  staticInfoHash: string; // Content hash of the static system information
   dynamicStatus: DynamicSystemStatus; // Dynamic system status
+  probes?: ProbeResult[]; // Service health probe results
+  agent?: AgentHealth; // Self-metrics of the client
   priority?: number; // Client priority for sorting
 }
 
@@ -22,7 +31,113 @@ export interface ReportPayload {
  * Used for storing failed reports locally
  */
 export interface CachedReport {
+  id: string; // Unique entry identifier, used to match batch acknowledgements
+  kind?: 'report'; // Absent in entries cached by older versions
   payload: ReportPayload;
   timestamp: number; // When the report was cached
   retryCount: number; // Number of retry attempts
 }
+
+/**
+ * Cached alert entry
+ * Used for storing failed alert events locally
+ */
+export interface CachedAlert {
+  id: string; // Unique entry identifier
+  kind: 'alert';
+  payload: AlertPayload;
+  timestamp: number; // When the alert was cached
+  retryCount: number; // Number of retry attempts
+}
+
+/**
+ * Static info change event
+ * Emitted when a periodic refresh finds that static system info changed
+ */
+export interface StaticInfoChangeEvent {
+  type: 'staticInfoChanged';
+  changes: StaticInfoChange[]; // What changed
+  previousHash: string; // staticInfoHash before the change
+  currentHash: string; // staticInfoHash after the change
+  timestamp: number; // When the change was detected (Unix milliseconds)
+}
+
+/**
+ * Event payload interface
+ * Sent to the server for each client event
+ */
+export interface EventPayload {
+  clientId: string; // Client unique identifier (UUID)
+  clientName: string; // Client custom name
+  clientTags: string[]; // Client tags list
+  hostname: string; // System hostname
+  event: StaticInfoChangeEvent; // The event
+}
+
+/**
+ * Cached event entry
+ * Used for storing failed events locally
+ */
+export interface CachedEvent {
+  id: string; // Unique entry identifier
+  kind: 'event';
+  payload: EventPayload;
+  timestamp: number; // When the event was cached
+  retryCount: number; // Number of retry attempts
+}
+
+/**
+ * Any entry in the offline cache
+ */
+export type CacheEntry = CachedReport | CachedAlert | CachedEvent;
+
+/**
+ * Batch upload request body
+ * Sent to the batch endpoint when draining the offline cache
+ */
+export interface BatchPayload {
+  reports: Array<{
+    id: string; // Cached entry identifier
+    payload: ReportPayload; // Original report payload
+  }>;
+}
+
+/**
+ * Per-entry acknowledgement returned by the batch endpoint
+ */
+export interface BatchResult {
+  id: string; // Cached entry identifier
+  accepted: boolean; // Whether the server stored this entry
+  error?: string; // Rejection reason
+}
+
+/**
+ * Batch upload response body
+ * Entries missing from results are treated as rejected
+ */
+export interface BatchResponse {
+  results: BatchResult[];
+  resyncStaticInfo?: boolean; // Send static info with the next report
+  control?: ControlMessage; // Config overrides and commands (see remoteControl)
+}
+
+/**
+ * Report response body
+ * Fields the client understands in the server's answer to a report
+ */
+export interface ReportResponse {
+  resyncStaticInfo?: boolean; // Server does not have the static info, send it with the next report
+  control?: ControlMessage; // Config overrides and commands (see remoteControl)
+}
+
+/**
+ * Delivery state of one destination
+ */
+export interface DestinationStatus {
+  name: string; // Destination name
+  url: string; // Server endpoint URL
+  mode: DestinationMode; // How the destination receives data
+  circuitState: CircuitState; // Circuit breaker state
+  failures: number; // Consecutive failures
+  cached: number; // Entries waiting in the destination's queue (shared by failover destinations)
+}
@@ -0,0 +1,34 @@
+/**
+ * Duration utility
+ */
+
+const UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a duration such as "500ms", "30s", "5m", "1h" or "1d"
+ * Numbers are taken as milliseconds
+ * @param value Duration string or number of milliseconds
+ * @returns Duration in milliseconds
+ * @throws Error if the value is not a valid duration
+ */
+export function parseDuration(value: string | number): number {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid duration: ${value}`);
+    }
+    return value;
+  }
+
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)?\s*$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid duration: "${value}"`);
+  }
+
+  return Number(match[1]) * UNITS[match[2] || 'ms'];
+}
@@ -0,0 +1,81 @@
+/**
+ * Lock file utility
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Error raised when another running process holds the lock
+ */
+export class LockError extends Error {
+  constructor(
+    message: string,
+    public readonly pid: number
+  ) {
+    super(message);
+    this.name = 'LockError';
+  }
+}
+
+/**
+ * Take an exclusive lock by creating the lock file with the process ID
+ * A lock left behind by a process that no longer runs is taken over
+ * @param filePath Lock file path
+ * @returns Function releasing the lock
+ * @throws LockError if another running process holds the lock
+ */
+export function acquireLock(filePath: string): () => void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      fs.writeFileSync(filePath, String(process.pid), { flag: 'wx' });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST' || attempt > 0) {
+        throw error;
+      }
+    }
+
+    const pid = readLockOwner(filePath);
+    if (pid !== undefined && isRunning(pid)) {
+      throw new LockError(`${filePath} is held by process ${pid}`, pid);
+    }
+    fs.rmSync(filePath, { force: true });
+  }
+
+  return () => {
+    if (readLockOwner(filePath) === process.pid) {
+      fs.rmSync(filePath, { force: true });
+    }
+  };
+}
+
+/**
+ * Read the process ID stored in a lock file
+ */
+function readLockOwner(filePath: string): number | undefined {
+  try {
+    const pid = parseInt(fs.readFileSync(filePath, 'utf-8').trim(), 10);
+    return Number.isInteger(pid) && pid > 0 ? pid : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check whether a process runs; our own ID counts as not running, since a container
+ * restart reuses it for a new process
+ */
+function isRunning(pid: number): boolean {
+  if (pid === process.pid) {
+    return false;
+  }
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
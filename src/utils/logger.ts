@@ -13,12 +13,20 @@ export enum LogLevel {
  * Simple logger class for consistent logging across the application
  */
 export class Logger {
+  private static infoToStderr = false;
   private readonly context: string;
 
   constructor(context: string) {
     this.context = context;
   }
 
+  /**
+   * Write info and debug messages to stderr too, so stdout only carries command output
+   */
+  static useStderr(): void {
+    Logger.infoToStderr = true;
+  }
+
   /**
    * Log an error message with stack trace
    */
@@ -51,7 +59,7 @@ export class Logger {
    */
   info(message: string): void {
     const timestamp = new Date().toISOString();
-    console.log(`[${timestamp}] [${LogLevel.INFO}] [${this.context}] ${message}`);
+    this.write(`[${timestamp}] [${LogLevel.INFO}] [${this.context}] ${message}`);
   }
 
   /**
@@ -59,6 +67,14 @@ export class Logger {
    */
   debug(message: string): void {
     const timestamp = new Date().toISOString();
-    console.log(`[${timestamp}] [${LogLevel.DEBUG}] [${this.context}] ${message}`);
+    this.write(`[${timestamp}] [${LogLevel.DEBUG}] [${this.context}] ${message}`);
+  }
+
+  private write(line: string): void {
+    if (Logger.infoToStderr) {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
   }
 }
@@ -0,0 +1,25 @@
+/**
+ * Version utility
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+let version: string | undefined;
+
+/**
+ * Get the client version from package.json
+ * @returns The version, or 'unknown' if package.json cannot be read
+ */
+export function getVersion(): string {
+  if (version === undefined) {
+    try {
+      // Two levels up from both src/utils and dist/utils
+      const file = path.join(__dirname, '..', '..', 'package.json');
+      version = String(JSON.parse(fs.readFileSync(file, 'utf-8')).version ?? 'unknown');
+    } catch {
+      version = 'unknown';
+    }
+  }
+  return version;
+}